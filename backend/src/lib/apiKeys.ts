@@ -0,0 +1,134 @@
+import { createHash, randomBytes } from 'crypto';
+import { fileKeyStore } from './fileKeyStore.js';
+import { memoryKeyStore } from './memoryKeyStore.js';
+
+// API keys are only shown once, when issued. Stores keep a SHA-256 hash;
+// keys are long random strings, so a fast hash is enough.
+
+export interface ApiKeyRecord {
+    id: string;
+    name: string;
+    hash: string;
+    createdAt: string;
+    revokedAt: string | null;
+    rateLimitPerMinute: number | null; // null means the server default
+    dailyQuota: number | null;
+    // Webhook defaults. The secret signs payloads, so unlike the key it is
+    // kept as is. Missing on keys issued before webhooks.
+    callbackUrl?: string | null;
+    webhookSecret?: string | null;
+}
+
+// A place to keep API key records
+export interface ApiKeyStore {
+    name: string;
+    list(): Promise<ApiKeyRecord[]>;
+    findByHash(hash: string): Promise<ApiKeyRecord | null>;
+    save(record: ApiKeyRecord): Promise<void>;
+}
+
+const stores: Record<string, ApiKeyStore> = {
+    [fileKeyStore.name]: fileKeyStore,
+    [memoryKeyStore.name]: memoryKeyStore,
+};
+
+const KEY_PREFIX = 'bgr_';
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+// Resolve the store selected by API_KEY_STORE (defaults to the JSON file)
+export function getApiKeyStore(): ApiKeyStore {
+    const name = (process.env.API_KEY_STORE || fileKeyStore.name).trim().toLowerCase();
+    const store = stores[name];
+
+    if (!store) {
+        throw new Error(
+            `Unknown API_KEY_STORE "${name}". Expected one of: ${Object.keys(stores).join(', ')}`
+        );
+    }
+
+    return store;
+}
+
+// Keys are only checked when REQUIRE_API_KEY=true
+export function isApiKeyRequired(): boolean {
+    return process.env.REQUIRE_API_KEY === 'true';
+}
+
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+function generateWebhookSecret(): string {
+    return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+// Create a key. The plain key is returned here and never stored.
+export async function issueApiKey(
+    name: string,
+    {
+        rateLimitPerMinute = null,
+        dailyQuota = null,
+        callbackUrl = null,
+    }: { rateLimitPerMinute?: number | null; dailyQuota?: number | null; callbackUrl?: string | null } = {}
+): Promise<{ key: string; record: ApiKeyRecord }> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+        id: randomBytes(4).toString('hex'),
+        name,
+        hash: hashApiKey(key),
+        createdAt: new Date().toISOString(),
+        revokedAt: null,
+        rateLimitPerMinute,
+        dailyQuota,
+        callbackUrl,
+        webhookSecret: generateWebhookSecret(),
+    };
+
+    await getApiKeyStore().save(record);
+    return { key, record };
+}
+
+// A key's record by id, revoked or not
+export async function findApiKeyById(id: string): Promise<ApiKeyRecord | null> {
+    return (await getApiKeyStore().list()).find((candidate) => candidate.id === id) ?? null;
+}
+
+// Revoke a key by id. Returns the updated record, or null if unknown.
+export async function revokeApiKey(id: string): Promise<ApiKeyRecord | null> {
+    const store = getApiKeyStore();
+    const record = await findApiKeyById(id);
+    if (!record) return null;
+
+    const revoked = { ...record, revokedAt: record.revokedAt ?? new Date().toISOString() };
+    await store.save(revoked);
+    return revoked;
+}
+
+// Change a key's default callback URL (null removes it) and make sure it has
+// a webhook secret, rotating it on request. Returns the updated record, or
+// null if unknown.
+export async function updateWebhookSettings(
+    id: string,
+    { callbackUrl, rotateSecret = false }: { callbackUrl?: string | null; rotateSecret?: boolean }
+): Promise<ApiKeyRecord | null> {
+    const record = await findApiKeyById(id);
+    if (!record) return null;
+
+    const updated: ApiKeyRecord = {
+        ...record,
+        callbackUrl: callbackUrl === undefined ? record.callbackUrl ?? null : callbackUrl,
+        webhookSecret: rotateSecret || !record.webhookSecret ? generateWebhookSecret() : record.webhookSecret,
+    };
+    await getApiKeyStore().save(updated);
+    return updated;
+}
+
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+    return getApiKeyStore().list();
+}
+
+// The active record for a plain key, if any
+export async function findApiKey(key: string): Promise<ApiKeyRecord | null> {
+    const record = await getApiKeyStore().findByHash(hashApiKey(key));
+    return record && !record.revokedAt ? record : null;
+}
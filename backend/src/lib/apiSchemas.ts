@@ -0,0 +1,465 @@
+import { z } from 'zod';
+import { ValidationError } from './errors.js';
+import { MAX_RETENTION_HOURS } from './images.js';
+import { MAX_SHARE_LINK_SECONDS } from './shareLinks.js';
+import type {
+    BackgroundFill,
+    BackgroundResponse,
+    BatchItem,
+    BatchManifest,
+    CreatedBatch,
+    CreatedJob,
+    DeleteResponse,
+    DependencyHealth,
+    ErrorBody,
+    HealthErrorResponse,
+    HealthResponse,
+    ImageDetails,
+    ImageList,
+    ImageSummary,
+    JobSnapshot,
+    ListImagesQuery,
+    ListWebhookDeliveriesQuery,
+    OutputOptions,
+    PipelineOperation,
+    ProcessingResponse,
+    ProcessingResult,
+    ShareLink,
+    ShareLinkRequest,
+    StoredOriginal,
+    StoredProcessed,
+    SweepResult,
+    WebhookDelivery,
+    WebhookDeliveryList,
+    WebhookPayload,
+} from './apiTypes.js';
+
+// Runtime schemas for the types in apiTypes.ts. Request schemas validate what
+// routes read from the query and body; response schemas only document the API
+// (see openapi.ts). Schemas with an id become named OpenAPI components.
+
+// Requests
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+const DEFAULT_SHARE_LINK_SECONDS = 24 * 60 * 60;
+
+const OUTPUT_FORMAT_VALUES = ['png', 'webp', 'avif', 'jpeg'] as const;
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// Multipart fields are strings, and an empty one counts as not sent
+function formField<T extends z.ZodType>(schema: T) {
+    return z.preprocess((value) => (value === '' ? undefined : value), schema);
+}
+
+function wholeNumber(field: string, min: number, max: number, unit = '') {
+    const error = `${field} must be a whole number${unit} between ${min} and ${max}`;
+    return z.coerce.number({ error }).int({ error }).min(min, { error }).max(max, { error });
+}
+
+// JSON booleans, or "true"/"false" form fields
+function booleanField(field: string) {
+    const error = `${field} must be true or false`;
+    return z.union([z.boolean(), z.stringbool({ truthy: ['true'], falsy: ['false'] })], { error });
+}
+
+function oneOf<const T extends readonly [string, ...string[]]>(field: string, values: T) {
+    return z.enum(values, { error: `${field} must be one of: ${values.join(', ')}` });
+}
+
+// A JSON value sent as-is in JSON bodies or as a string in multipart forms.
+// Its contents are checked by the pipeline's own parsers.
+function jsonField(field: string, value: z.ZodType, expected: string) {
+    return z.union([value, z.string()], {
+        error: (issue) => (issue.input === undefined ? `${field} is required` : `${field} must be ${expected}`),
+    });
+}
+
+const outputFields = {
+    format: formField(oneOf('format', OUTPUT_FORMAT_VALUES).optional()),
+    quality: formField(wholeNumber('quality', 1, 100).optional()),
+    flattenColor: formField(z.string().regex(HEX_COLOR, { error: 'flattenColor must be a hex colour like #ffffff' }).optional()),
+};
+
+// Fields shared by every route that runs the pipeline
+export const processingSettingsSchema = z.object({
+    operations: formField(
+        jsonField('operations', z.array(z.record(z.string(), z.unknown())), 'an array').optional()
+    ).meta({ description: 'Pipeline steps (see PipelineOperation); fields with defaults may be left out' }),
+    ...outputFields,
+    expiresIn: formField(wholeNumber('expiresIn', 1, MAX_RETENTION_HOURS, ' of hours').optional())
+        .meta({ description: 'Hours to keep the image' }),
+    keepColorProfile: formField(booleanField('keepColorProfile').optional()),
+    callbackUrl: formField(z.string({ error: 'callbackUrl must be a string' }).optional())
+        .meta({ description: "URL to POST a WebhookPayload to when processing finishes; defaults to the API key's" }),
+}).meta({ id: 'ProcessingSettings' });
+
+// An image processed on upload may be imported from a url instead
+export const processingFieldsSchema = processingSettingsSchema.extend({
+    url: formField(z.string({ error: 'url must be a string' }).optional())
+        .meta({ description: 'Import the image from this http(s) URL instead of uploading it' }),
+}).meta({ id: 'ProcessingFields' });
+
+export const backgroundFieldsSchema = z.object({
+    fill: formField(jsonField('fill', z.record(z.string(), z.unknown()), 'an object'))
+        .meta({ description: 'A BackgroundFill, or "none" to restore the transparent cutout' }),
+    ...outputFields,
+}).meta({ id: 'BackgroundFields' });
+
+export const shareLinkRequestSchema = z.object({
+    expiresIn: formField(
+        wholeNumber('expiresIn', 60, MAX_SHARE_LINK_SECONDS, ' of seconds').default(DEFAULT_SHARE_LINK_SECONDS)
+    ),
+    file: formField(oneOf('file', ['processed', 'original']).default('processed')),
+    singleUse: formField(booleanField('singleUse').default(false)),
+    downloadOnly: formField(booleanField('downloadOnly').default(false)),
+}).meta({ id: 'ShareLinkRequest' }) satisfies z.ZodType<ShareLinkRequest>;
+
+export const listImagesQuerySchema = z.object({
+    limit: formField(wholeNumber('limit', 1, MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)),
+    cursor: formField(z.string().optional()).meta({ description: 'nextCursor of the previous page' }),
+}) satisfies z.ZodType<ListImagesQuery>;
+
+export const listWebhookDeliveriesQuerySchema = z.object({
+    limit: formField(wholeNumber('limit', 1, MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)),
+    cursor: formField(z.string().optional()).meta({ description: 'nextCursor of the previous page' }),
+    status: formField(oneOf('status', ['pending', 'succeeded', 'failed']).optional()),
+    imageId: formField(z.string().optional()).meta({ description: 'Only deliveries about this image' }),
+}) satisfies z.ZodType<ListWebhookDeliveriesQuery>;
+
+export const maskQuerySchema = z.object({
+    source: formField(oneOf('source', ['result', 'removal']).default('result')),
+});
+
+export const downloadQuerySchema = z.object({
+    filename: formField(z.string().optional()).meta({ description: 'Name to base the download name on' }),
+});
+
+export const deleteQuerySchema = z.object({
+    imageId: z.string({ error: 'Image ID is required' }).min(1, { error: 'Image ID is required' }),
+});
+
+// Validate request fields, failing with the first problem found
+export function parseRequest<T extends z.ZodType>(schema: T, value: unknown): z.output<T> {
+    const result = schema.safeParse(value ?? {});
+    if (!result.success) {
+        throw new ValidationError(result.error.issues[0].message);
+    }
+    return result.data;
+}
+
+// Responses
+
+const outputFormatSchema = z.enum(OUTPUT_FORMAT_VALUES);
+const timestamp = z.iso.datetime();
+
+export const errorBodySchema = z.object({
+    error: z.string(),
+    code: z.string(),
+    retryAfter: z.number().int().optional().meta({ description: 'Seconds until a retry can succeed' }),
+}).meta({ id: 'Error' }) satisfies z.ZodType<ErrorBody>;
+
+export const outputOptionsSchema = z.object({
+    format: outputFormatSchema,
+    quality: z.number().int(),
+    flattenColor: z.string(),
+}).meta({ id: 'OutputOptions' }) satisfies z.ZodType<OutputOptions>;
+
+export const backgroundFillSchema = z.discriminatedUnion('mode', [
+    z.object({ mode: z.literal('color'), color: z.string() }),
+    z.object({ mode: z.literal('linear'), colors: z.array(z.string()), angle: z.number() }),
+    z.object({ mode: z.literal('radial'), colors: z.array(z.string()) }),
+    z.object({ mode: z.literal('image') }),
+]).meta({ id: 'BackgroundFill' }) satisfies z.ZodType<BackgroundFill>;
+
+export const pipelineOperationSchema = z.union([
+    z.object({ type: z.literal('removeBackground') }),
+    z.object({ type: z.literal('flip'), direction: z.enum(['horizontal', 'vertical']) }),
+    z.object({ type: z.literal('rotate'), angle: z.number() }),
+    z.object({
+        type: z.literal('resize'),
+        width: z.number().int().optional(),
+        height: z.number().int().optional(),
+        fit: z.enum(['contain', 'cover', 'fill', 'inside', 'outside']),
+    }),
+    z.object({
+        type: z.literal('crop'),
+        left: z.number().int(),
+        top: z.number().int(),
+        width: z.number().int(),
+        height: z.number().int(),
+    }),
+    z.object({
+        type: z.literal('pad'),
+        top: z.number().int(),
+        right: z.number().int(),
+        bottom: z.number().int(),
+        left: z.number().int(),
+        color: z.string(),
+    }),
+    z.object({
+        type: z.literal('refineMask'),
+        threshold: z.number().int().optional(),
+        shift: z.number().int(),
+        feather: z.number(),
+        decontaminate: z.boolean(),
+    }),
+    z.object({
+        type: z.literal('autoCrop'),
+        padding: z.number().int(),
+        alphaThreshold: z.number().int(),
+        aspectRatio: z.number().optional(),
+        width: z.number().int().optional(),
+        height: z.number().int().optional(),
+    }),
+    z.object({
+        type: z.literal('dropShadow'),
+        offsetX: z.number().int(),
+        offsetY: z.number().int(),
+        blur: z.number(),
+        opacity: z.number(),
+        color: z.string(),
+    }),
+    z.object({
+        type: z.literal('contactShadow'),
+        spread: z.number(),
+        blur: z.number(),
+        opacity: z.number(),
+        color: z.string(),
+    }),
+    z.object({ type: z.literal('outline'), width: z.number().int(), color: z.string() }),
+    z.intersection(z.object({ type: z.literal('background') }), backgroundFillSchema),
+]).meta({ id: 'PipelineOperation' }) satisfies z.ZodType<PipelineOperation>;
+
+const processingResultShape = {
+    imageId: z.uuid(),
+    originalUrl: z.string(),
+    processedUrl: z.string(),
+    format: outputFormatSchema,
+    operations: z.array(pipelineOperationSchema),
+    cache: z.enum(['hit', 'miss', 'skipped']),
+    expiresAt: timestamp,
+};
+
+export const processingResultSchema = z.object(processingResultShape)
+    .meta({ id: 'ProcessingResult' }) satisfies z.ZodType<ProcessingResult>;
+
+export const processingResponseSchema = z.object({
+    success: z.literal(true),
+    ...processingResultShape,
+    message: z.string(),
+}).meta({ id: 'ProcessingResponse' }) satisfies z.ZodType<ProcessingResponse>;
+
+const jobSnapshotShape = {
+    jobId: z.uuid(),
+    stage: z.enum(['queued', 'converting', 'removing_background', 'post_processing', 'uploading', 'done', 'failed', 'cancelled']),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    result: processingResultSchema.nullable(),
+    error: z.string().nullable(),
+    errorCode: z.string().nullable(),
+    retryAfter: z.number().int().nullable(),
+};
+
+export const jobSnapshotSchema = z.object(jobSnapshotShape)
+    .meta({ id: 'JobSnapshot' }) satisfies z.ZodType<JobSnapshot>;
+
+export const createdJobSchema = z.object({
+    ...jobSnapshotShape,
+    statusUrl: z.string(),
+    eventsUrl: z.string().meta({
+        description: 'Server-sent events with a JobSnapshot on every stage change. With API keys it carries a token ' +
+            'that opens this stream without the key for 10 minutes.',
+    }),
+}).meta({ id: 'CreatedJob' }) satisfies z.ZodType<CreatedJob>;
+
+export const batchItemSchema = z.object({
+    index: z.number().int(),
+    originalName: z.string(),
+    status: z.enum(['pending', 'processing', 'succeeded', 'failed']),
+    imageId: z.uuid().nullable(),
+    processedUrl: z.string().nullable(),
+    format: outputFormatSchema.nullable(),
+    error: z.string().nullable(),
+    errorCode: z.string().nullable(),
+}).meta({ id: 'BatchItem' }) satisfies z.ZodType<BatchItem>;
+
+const batchManifestShape = {
+    batchId: z.uuid(),
+    ownerKeyId: z.string().nullable(),
+    status: z.enum(['processing', 'completed']),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    total: z.number().int(),
+    succeeded: z.number().int(),
+    failed: z.number().int(),
+    items: z.array(batchItemSchema),
+};
+
+export const batchManifestSchema = z.object(batchManifestShape)
+    .meta({ id: 'BatchManifest' }) satisfies z.ZodType<BatchManifest>;
+
+export const createdBatchSchema = z.object({
+    ...batchManifestShape,
+    statusUrl: z.string(),
+    zipUrl: z.string(),
+}).meta({ id: 'CreatedBatch' }) satisfies z.ZodType<CreatedBatch>;
+
+const storedOriginalSchema = z.object({
+    fileName: z.string(),
+    originalName: z.string(),
+    contentType: z.string(),
+    size: z.number().int(),
+    width: z.number().int(),
+    height: z.number().int(),
+}).meta({ id: 'StoredOriginal' }) satisfies z.ZodType<StoredOriginal>;
+
+const storedProcessedSchema = z.object({
+    fileName: z.string(),
+    format: outputFormatSchema,
+    size: z.number().int(),
+    width: z.number().int(),
+    height: z.number().int(),
+    thumbnailFileName: z.string().optional(),
+}).meta({ id: 'StoredProcessed' }) satisfies z.ZodType<StoredProcessed>;
+
+export const imageDetailsSchema = z.union([
+    z.object({
+        imageId: z.uuid(),
+        originalUrl: z.string(),
+        processedUrl: z.string(),
+        format: outputFormatSchema,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        original: storedOriginalSchema,
+        processed: storedProcessedSchema,
+        operations: z.array(pipelineOperationSchema),
+        output: outputOptionsSchema,
+        expiresAt: timestamp,
+    }),
+    z.object({
+        imageId: z.uuid(),
+        originalUrl: z.null(),
+        processedUrl: z.string(),
+        format: outputFormatSchema,
+        expiresAt: z.null(),
+    }).meta({ description: 'An image stored before originals were kept' }),
+]).meta({ id: 'ImageDetails' }) satisfies z.ZodType<ImageDetails>;
+
+export const imageSummarySchema = z.object({
+    imageId: z.uuid(),
+    originalName: z.string(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    expiresAt: timestamp,
+    format: outputFormatSchema,
+    size: z.number().int(),
+    width: z.number().int(),
+    height: z.number().int(),
+    processedUrl: z.string(),
+    thumbnailUrl: z.string().nullable(),
+}).meta({ id: 'ImageSummary' }) satisfies z.ZodType<ImageSummary>;
+
+export const imageListSchema = z.object({
+    images: z.array(imageSummarySchema),
+    total: z.number().int(),
+    nextCursor: z.string().nullable(),
+}).meta({ id: 'ImageList' }) satisfies z.ZodType<ImageList>;
+
+export const backgroundResponseSchema = z.object({
+    success: z.literal(true),
+    imageId: z.uuid(),
+    processedUrl: z.string(),
+    format: outputFormatSchema,
+    background: backgroundFillSchema.nullable(),
+}).meta({ id: 'BackgroundResponse' }) satisfies z.ZodType<BackgroundResponse>;
+
+export const deleteResponseSchema = z.object({
+    success: z.literal(true),
+    message: z.string(),
+}).meta({ id: 'DeleteResponse' }) satisfies z.ZodType<DeleteResponse>;
+
+export const shareLinkSchema = z.object({
+    url: z.string(),
+    expiresAt: timestamp,
+    file: z.enum(['processed', 'original', 'thumbnail']),
+    singleUse: z.boolean(),
+    downloadOnly: z.boolean(),
+}).meta({ id: 'ShareLink' }) satisfies z.ZodType<ShareLink>;
+
+export const sweepResultSchema = z.object({
+    checked: z.number().int(),
+    expired: z.number().int(),
+    failed: z.number().int(),
+    cacheEntriesRemoved: z.number().int(),
+    shareMarkersRemoved: z.number().int(),
+    webhookDeliveriesRemoved: z.number().int(),
+    webhookDeliveriesResumed: z.number().int(),
+}).meta({ id: 'SweepResult' }) satisfies z.ZodType<SweepResult>;
+
+export const webhookPayloadSchema = z.object({
+    eventId: z.uuid().meta({ description: 'The same when a delivery is replayed' }),
+    event: z.enum(['image.processed', 'image.failed']),
+    createdAt: timestamp,
+    imageId: z.uuid().nullable(),
+    originalName: z.string().nullable(),
+    jobId: z.uuid().nullable(),
+    batchId: z.uuid().nullable(),
+    result: processingResultSchema.nullable().meta({ description: 'Set for image.processed' }),
+    error: errorBodySchema.nullable().meta({ description: 'Set for image.failed' }),
+    timings: z.object({
+        startedAt: timestamp,
+        finishedAt: timestamp,
+        durationMs: z.number().int(),
+        stages: z.partialRecord(
+            z.enum(['converting', 'removing_background', 'post_processing', 'uploading']),
+            z.number().int()
+        ).meta({ description: 'Milliseconds spent in each stage' }),
+    }),
+}).meta({ id: 'WebhookPayload' }) satisfies z.ZodType<WebhookPayload>;
+
+export const webhookDeliverySchema = z.object({
+    deliveryId: z.uuid(),
+    ownerKeyId: z.string().nullable(),
+    url: z.string(),
+    event: z.enum(['image.processed', 'image.failed']),
+    status: z.enum(['pending', 'succeeded', 'failed']),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    nextAttemptAt: timestamp.nullable(),
+    replayOf: z.uuid().nullable().meta({ description: 'The delivery this one replays' }),
+    attempts: z.array(z.object({
+        attemptedAt: timestamp,
+        durationMs: z.number().int(),
+        statusCode: z.number().int().nullable(),
+        error: z.string().nullable(),
+        responseBody: z.string().nullable(),
+    })),
+    payload: webhookPayloadSchema,
+}).meta({ id: 'WebhookDelivery' }) satisfies z.ZodType<WebhookDelivery>;
+
+export const webhookDeliveryListSchema = z.object({
+    deliveries: z.array(webhookDeliverySchema),
+    total: z.number().int(),
+    nextCursor: z.string().nullable(),
+}).meta({ id: 'WebhookDeliveryList' }) satisfies z.ZodType<WebhookDeliveryList>;
+
+const dependencyHealthSchema = z.object({
+    name: z.string(),
+    status: z.enum(['ok', 'error']),
+    latencyMs: z.number().int(),
+    error: z.string().optional(),
+}).meta({ id: 'DependencyHealth' }) satisfies z.ZodType<DependencyHealth>;
+
+export const healthResponseSchema = z.object({
+    status: z.enum(['ok', 'degraded']),
+    storage: dependencyHealthSchema,
+    provider: dependencyHealthSchema,
+    timestamp,
+}).meta({ id: 'HealthResponse' }) satisfies z.ZodType<HealthResponse>;
+
+export const healthErrorResponseSchema = z.object({
+    status: z.literal('error'),
+    error: z.string(),
+    timestamp,
+}).meta({ id: 'HealthErrorResponse' }) satisfies z.ZodType<HealthErrorResponse>;
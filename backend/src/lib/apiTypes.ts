@@ -0,0 +1,366 @@
+// Request and response bodies of the HTTP API. This file has no imports so the
+// frontend can share it with type-only imports; the schemas in apiSchemas.ts
+// that validate requests and document the API are checked against it.
+
+// Pipeline
+
+export type OutputFormat = 'png' | 'webp' | 'avif' | 'jpeg';
+
+// How the final image is encoded. `flattenColor` fills transparent areas for
+// formats without an alpha channel.
+export interface OutputOptions {
+    format: OutputFormat;
+    quality: number;
+    flattenColor: string;
+}
+
+export type FlipDirection = 'horizontal' | 'vertical';
+export type ResizeFit = 'contain' | 'cover' | 'fill' | 'inside' | 'outside';
+
+export type BackgroundFill =
+    | { mode: 'color'; color: string }
+    | { mode: 'linear'; colors: string[]; angle: number }
+    | { mode: 'radial'; colors: string[] }
+    | { mode: 'image' };
+
+export type PipelineOperation =
+    | { type: 'removeBackground' }
+    | { type: 'flip'; direction: FlipDirection }
+    | { type: 'rotate'; angle: number }
+    | { type: 'resize'; width?: number; height?: number; fit: ResizeFit }
+    | { type: 'crop'; left: number; top: number; width: number; height: number }
+    | { type: 'pad'; top: number; right: number; bottom: number; left: number; color: string }
+    | ({ type: 'refineMask' } & MaskRefinement)
+    | ({ type: 'autoCrop' } & AutoCropOptions)
+    | { type: 'dropShadow'; offsetX: number; offsetY: number; blur: number; opacity: number; color: string }
+    | { type: 'contactShadow'; spread: number; blur: number; opacity: number; color: string }
+    | { type: 'outline'; width: number; color: string }
+    | ({ type: 'background' } & BackgroundFill);
+
+// Clean-up for the alpha mask left by background removal, applied in field
+// order. `threshold` makes every pixel fully opaque or transparent, `shift`
+// shrinks (negative) or grows (positive) the mask by that many pixels,
+// `feather` blurs its edge and `decontaminate` pulls leftover background
+// colour out of semi-transparent edge pixels.
+export interface MaskRefinement {
+    threshold?: number;
+    shift: number;
+    feather: number;
+    decontaminate: boolean;
+}
+
+// Crop to the subject (pixels more opaque than `alphaThreshold`) plus
+// `padding` on every side. With `width` and `height` the subject is scaled to
+// fit inside that canvas less the padding; with `aspectRatio` (width over
+// height) the canvas is widened or heightened to match. Either way the
+// subject ends up centred on a transparent canvas.
+export interface AutoCropOptions {
+    padding: number;
+    alphaThreshold: number;
+    aspectRatio?: number;
+    width?: number;
+    height?: number;
+}
+
+// Requests
+
+// Multipart or JSON fields of the upload, job, reprocess and batch routes.
+// `operations` may leave out fields that have defaults, and is sent as a JSON
+// string in multipart forms. `expiresIn` is in hours. `url` imports the image
+// instead of uploading it, on the upload and job routes only. `callbackUrl`
+// gets a webhook with the outcome, overriding the API key's default.
+export interface ProcessingFields {
+    url?: string;
+    callbackUrl?: string;
+    operations?: Record<string, unknown>[];
+    format?: OutputFormat;
+    quality?: number;
+    flattenColor?: string;
+    expiresIn?: number;
+    keepColorProfile?: boolean;
+}
+
+// Fields of POST /api/images/:id/background. `fill` is 'none' to restore the
+// transparent cutout; output fields default to the image's current ones.
+export interface BackgroundFields {
+    fill: BackgroundFill | 'none';
+    format?: OutputFormat;
+    quality?: number;
+    flattenColor?: string;
+}
+
+// Body of POST /api/images/:id/share. `expiresIn` is in seconds.
+export interface ShareLinkRequest {
+    expiresIn?: number;
+    file?: 'processed' | 'original';
+    singleUse?: boolean;
+    downloadOnly?: boolean;
+}
+
+export interface ListImagesQuery {
+    limit?: number;
+    cursor?: string;
+}
+
+export interface ListWebhookDeliveriesQuery {
+    limit?: number;
+    cursor?: string;
+    status?: WebhookDeliveryStatus;
+    imageId?: string;
+}
+
+export type MaskSource = 'result' | 'removal';
+
+// Responses
+
+// Every failed request answers with this body
+export interface ErrorBody {
+    error: string;
+    code: string;
+    retryAfter?: number;
+}
+
+export type CacheStatus = 'hit' | 'miss' | 'skipped';
+
+export type ProcessingStage = 'converting' | 'removing_background' | 'post_processing' | 'uploading';
+
+export interface ProcessingResult {
+    imageId: string;
+    originalUrl: string;
+    processedUrl: string;
+    format: OutputFormat;
+    operations: PipelineOperation[];
+    cache: CacheStatus;
+    expiresAt: string;
+}
+
+export interface ProcessingResponse extends ProcessingResult {
+    success: true;
+    message: string;
+}
+
+export type JobStage = 'queued' | ProcessingStage | 'done' | 'failed' | 'cancelled';
+
+// What clients see of a job
+export interface JobSnapshot {
+    jobId: string;
+    stage: JobStage;
+    createdAt: string;
+    updatedAt: string;
+    result: ProcessingResult | null;
+    error: string | null;
+    errorCode: string | null;
+    retryAfter: number | null;
+}
+
+export interface CreatedJob extends JobSnapshot {
+    statusUrl: string;
+    eventsUrl: string;
+}
+
+export type BatchItemStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
+
+export interface BatchItem {
+    index: number;
+    originalName: string;
+    status: BatchItemStatus;
+    imageId: string | null;
+    processedUrl: string | null;
+    format: OutputFormat | null;
+    error: string | null;
+    errorCode: string | null;
+}
+
+export interface BatchManifest {
+    batchId: string;
+    ownerKeyId: string | null;
+    status: 'processing' | 'completed';
+    createdAt: string;
+    updatedAt: string;
+    total: number;
+    succeeded: number;
+    failed: number;
+    items: BatchItem[];
+}
+
+export interface CreatedBatch extends BatchManifest {
+    statusUrl: string;
+    zipUrl: string;
+}
+
+// The upload as received
+export interface StoredOriginal {
+    fileName: string;
+    originalName: string;
+    contentType: string;
+    size: number;
+    width: number;
+    height: number;
+}
+
+// The pipeline result
+export interface StoredProcessed {
+    fileName: string;
+    format: OutputFormat;
+    size: number;
+    width: number;
+    height: number;
+    thumbnailFileName?: string; // Missing on images processed before listings existed
+}
+
+// GET /api/images/:id. Images stored before sidecar records only have the
+// processed image, and no original.
+export type ImageDetails =
+    | {
+        imageId: string;
+        originalUrl: string;
+        processedUrl: string;
+        format: OutputFormat;
+        createdAt: string;
+        updatedAt: string;
+        original: StoredOriginal;
+        processed: StoredProcessed;
+        operations: PipelineOperation[];
+        output: OutputOptions;
+        expiresAt: string;
+    }
+    | {
+        imageId: string;
+        originalUrl: null;
+        processedUrl: string;
+        format: OutputFormat;
+        expiresAt: null;
+    };
+
+export interface ImageSummary {
+    imageId: string;
+    originalName: string;
+    createdAt: string;
+    updatedAt: string;
+    expiresAt: string;
+    format: OutputFormat;
+    size: number;
+    width: number;
+    height: number;
+    processedUrl: string;
+    thumbnailUrl: string | null;
+}
+
+export interface ImageList {
+    images: ImageSummary[];
+    total: number;
+    nextCursor: string | null;
+}
+
+export interface BackgroundResponse {
+    success: true;
+    imageId: string;
+    processedUrl: string;
+    format: OutputFormat;
+    background: BackgroundFill | null;
+}
+
+export interface DeleteResponse {
+    success: true;
+    message: string;
+}
+
+export type WebhookEvent = 'image.processed' | 'image.failed';
+
+// Milliseconds spent in each processing stage of a webhook's image
+export interface WebhookTimings {
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    stages: Partial<Record<ProcessingStage, number>>;
+}
+
+// The JSON body POSTed to a callback URL. `eventId` stays the same when a
+// delivery is replayed; `result` is set for image.processed and `error` for
+// image.failed.
+export interface WebhookPayload {
+    eventId: string;
+    event: WebhookEvent;
+    createdAt: string;
+    imageId: string | null;
+    originalName: string | null;
+    jobId: string | null;
+    batchId: string | null;
+    result: ProcessingResult | null;
+    error: ErrorBody | null;
+    timings: WebhookTimings;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookAttempt {
+    attemptedAt: string;
+    durationMs: number;
+    statusCode: number | null; // null when no response arrived
+    error: string | null;
+    responseBody: string | null; // The start of it
+}
+
+export interface WebhookDelivery {
+    deliveryId: string;
+    ownerKeyId: string | null;
+    url: string;
+    event: WebhookEvent;
+    status: WebhookDeliveryStatus;
+    createdAt: string;
+    updatedAt: string;
+    nextAttemptAt: string | null;
+    replayOf: string | null;
+    attempts: WebhookAttempt[];
+    payload: WebhookPayload;
+}
+
+export interface WebhookDeliveryList {
+    deliveries: WebhookDelivery[];
+    total: number;
+    nextCursor: string | null;
+}
+
+export type SharedFile = 'processed' | 'original' | 'thumbnail';
+
+export interface ShareLink {
+    url: string;
+    expiresAt: string;
+    file: SharedFile;
+    singleUse: boolean;
+    downloadOnly: boolean;
+}
+
+export interface SweepResult {
+    checked: number;
+    expired: number;
+    failed: number;
+    cacheEntriesRemoved: number;
+    shareMarkersRemoved: number;
+    webhookDeliveriesRemoved: number;
+    webhookDeliveriesResumed: number;
+}
+
+export interface DependencyHealth {
+    name: string;
+    status: 'ok' | 'error';
+    latencyMs: number;
+    error?: string;
+}
+
+export interface HealthReport {
+    status: 'ok' | 'degraded';
+    storage: DependencyHealth;
+    provider: DependencyHealth;
+}
+
+export interface HealthResponse extends HealthReport {
+    timestamp: string;
+}
+
+// Sent instead when the checks themselves couldn't run
+export interface HealthErrorResponse {
+    status: 'error';
+    error: string;
+    timestamp: string;
+}
@@ -0,0 +1,138 @@
+import type express from 'express';
+import { findApiKey, findApiKeyById, isApiKeyRequired, type ApiKeyRecord } from './apiKeys.js';
+import { takeRateLimit, takeQuota, type LimitState } from './rateLimit.js';
+import { sendError, TooManyRequestsError, UnauthorizedError } from './errors.js';
+import { readSignedPayload, signPayload } from './shareLinks.js';
+
+declare global {
+    namespace Express {
+        interface Locals {
+            apiKey?: ApiKeyRecord;
+        }
+    }
+}
+
+const DEFAULT_RATE_LIMIT = Number(process.env.RATE_LIMIT_PER_MINUTE) || 60;
+const DEFAULT_DAILY_QUOTA = Number(process.env.DAILY_QUOTA) || 500;
+const STREAM_TOKEN_SECONDS = 10 * 60;
+
+// Stands in for the API key on one event stream URL, since EventSource can't
+// send headers. Keys never go in URLs, where logs and browser history keep them.
+interface StreamToken {
+    keyId: string;
+    path: string;
+    expiresAt: number; // Unix time in seconds
+}
+
+// Headers that browsers may read from cross-origin responses
+export const LIMIT_HEADERS = [
+    'X-RateLimit-Limit',
+    'X-RateLimit-Remaining',
+    'X-RateLimit-Reset',
+    'X-RateLimit-Daily-Limit',
+    'X-RateLimit-Daily-Remaining',
+    'X-RateLimit-Daily-Reset',
+    'Retry-After',
+];
+
+// The key from `X-API-Key` or `Authorization: Bearer`
+function readApiKey(req: express.Request): string | undefined {
+    const header = req.headers['x-api-key'];
+    if (typeof header === 'string' && header) return header;
+
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length);
+
+    return undefined;
+}
+
+// The key a GET request's `token` query parameter was issued for, when it was
+// issued for this path and hasn't expired (see streamUrl)
+async function readStreamToken(req: express.Request): Promise<ApiKeyRecord | null> {
+    if (req.method !== 'GET' || typeof req.query.token !== 'string') return null;
+
+    const token = readSignedPayload<StreamToken>('stream', req.query.token);
+    const path = req.originalUrl.split('?')[0];
+    if (!token || token.path !== path || token.expiresAt * 1000 <= Date.now()) {
+        throw new UnauthorizedError('Invalid or expired stream token');
+    }
+
+    const apiKey = await findApiKeyById(token.keyId);
+    return apiKey && !apiKey.revokedAt ? apiKey : null;
+}
+
+function setLimitHeaders(res: express.Response, prefix: string, state: LimitState): void {
+    res.setHeader(`${prefix}-Limit`, String(state.limit));
+    res.setHeader(`${prefix}-Remaining`, String(state.remaining));
+    res.setHeader(`${prefix}-Reset`, String(state.reset));
+}
+
+function secondsUntil(reset: number): number {
+    return Math.max(reset - Math.floor(Date.now() / 1000), 1);
+}
+
+// Reject requests without a valid API key and apply the key's rate limit.
+// Does nothing unless REQUIRE_API_KEY=true.
+export async function authenticate(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+): Promise<void> {
+    if (!isApiKeyRequired()) return next();
+
+    try {
+        const key = readApiKey(req);
+        const apiKey = key ? await findApiKey(key) : await readStreamToken(req);
+        if (!apiKey) {
+            throw new UnauthorizedError(key || req.query.token ? 'Invalid or revoked API key' : 'An API key is required');
+        }
+
+        const rate = takeRateLimit(apiKey.id, apiKey.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT);
+        setLimitHeaders(res, 'X-RateLimit', rate);
+        if (!rate.allowed) {
+            throw new TooManyRequestsError('Rate limit exceeded', 'rate_limited', secondsUntil(rate.reset));
+        }
+
+        res.locals.apiKey = apiKey;
+        next();
+    } catch (error) {
+        sendError(res, error, 'Failed to check API key');
+    }
+}
+
+// Count `amount` images against the key's daily quota, throwing when it would
+// go over. Call once the request is known to be valid.
+export function chargeQuota(res: express.Response, amount: number = 1): void {
+    const apiKey = res.locals.apiKey;
+    if (!apiKey) return;
+
+    const quota = takeQuota(apiKey.id, apiKey.dailyQuota ?? DEFAULT_DAILY_QUOTA, amount);
+    setLimitHeaders(res, 'X-RateLimit-Daily', quota);
+    if (!quota.allowed) {
+        throw new TooManyRequestsError('Daily quota exceeded', 'quota_exceeded', secondsUntil(quota.reset));
+    }
+}
+
+// A server-sent events path for the client, with a short-lived token for the
+// request's key when there is one. The token only opens that path.
+export function streamUrl(res: express.Response, path: string): string {
+    const apiKey = res.locals.apiKey;
+    if (!apiKey) return path;
+
+    const token = signPayload('stream', {
+        keyId: apiKey.id,
+        path,
+        expiresAt: Math.floor(Date.now() / 1000) + STREAM_TOKEN_SECONDS,
+    } satisfies StreamToken);
+    return `${path}?token=${token}`;
+}
+
+// Id of the key making the request, or null when API keys aren't in use
+export function requestOwner(res: express.Response): string | null {
+    return res.locals.apiKey?.id ?? null;
+}
+
+// Where to send a request's webhook: the callbackUrl it gave, or its key's default
+export function requestCallbackUrl(res: express.Response, requested: string | undefined): string | undefined {
+    return requested ?? res.locals.apiKey?.callbackUrl ?? undefined;
+}
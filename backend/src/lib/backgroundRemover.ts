@@ -0,0 +1,36 @@
+import { clipdropProvider } from './clipdrop.js';
+import { localProvider } from './localRemover.js';
+
+// A background removal backend. Implementations take a PNG and return a PNG
+// with the background made transparent.
+export interface BackgroundRemovalProvider {
+    name: string;
+    removeBackground(imageBuffer: Buffer): Promise<Buffer>;
+    // Throws when the provider can't be used; providers without one are
+    // always available
+    checkHealth?(): Promise<void>;
+}
+
+const providers: Record<string, BackgroundRemovalProvider> = {
+    [clipdropProvider.name]: clipdropProvider,
+    [localProvider.name]: localProvider,
+};
+
+// Resolve the provider selected by BG_REMOVAL_PROVIDER (defaults to Clipdrop)
+export function getBackgroundRemover(): BackgroundRemovalProvider {
+    const name = (process.env.BG_REMOVAL_PROVIDER || clipdropProvider.name).trim().toLowerCase();
+    const provider = providers[name];
+
+    if (!provider) {
+        throw new Error(
+            `Unknown BG_REMOVAL_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}`
+        );
+    }
+
+    return provider;
+}
+
+// Remove the background using the configured provider
+export async function removeBackground(imageBuffer: Buffer): Promise<Buffer> {
+    return getBackgroundRemover().removeBackground(imageBuffer);
+}
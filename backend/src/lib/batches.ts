@@ -0,0 +1,147 @@
+import { v4 as uuidv4 } from 'uuid';
+import { mapWithConcurrency } from './concurrency.js';
+import { processImage } from './processing.js';
+import { withCallback } from './webhooks.js';
+import { uploadImage, fileExists, readImage } from './storage.js';
+import type { ProcessingSettings } from './uploads.js';
+import { countError, errorBody } from './errors.js';
+import { viewUrl } from './shareLinks.js';
+import { logger } from './logger.js';
+import type { BatchManifest } from './apiTypes.js';
+
+export type { BatchItem, BatchItemStatus, BatchManifest } from './apiTypes.js';
+
+// Batches process many uploads with the same settings. The manifest is saved
+// to storage as items finish, so any instance can report progress or build
+// the ZIP.
+
+export interface BatchFile {
+    buffer: Buffer;
+    originalName: string;
+    contentType: string;
+}
+
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 3;
+
+function manifestFileName(batchId: string): string {
+    return `batches/${batchId}.json`;
+}
+
+// Manifests of batches running in this process
+const activeBatches = new Map<string, BatchManifest>();
+
+async function saveManifest(manifest: BatchManifest): Promise<void> {
+    await uploadImage(Buffer.from(JSON.stringify(manifest)), manifestFileName(manifest.batchId), 'application/json');
+}
+
+async function runBatch(manifest: BatchManifest, files: BatchFile[], settings: ProcessingSettings): Promise<void> {
+    // Saves are chained so an older manifest never overwrites a newer one
+    let saving = Promise.resolve();
+    const save = () => {
+        manifest.updatedAt = new Date().toISOString();
+        const snapshot = structuredClone(manifest);
+        saving = saving.then(() => saveManifest(snapshot)).catch((error) => {
+            logger.error('Batch manifest save error', { error });
+        });
+    };
+
+    await mapWithConcurrency(files, BATCH_CONCURRENCY, async (file, index) => {
+        const item = manifest.items[index];
+        item.status = 'processing';
+
+        try {
+            const target = {
+                url: settings.callbackUrl,
+                ownerKeyId: manifest.ownerKeyId,
+                originalName: file.originalName,
+                batchId: manifest.batchId,
+            };
+            const result = await withCallback(target, (hooks) => processImage({
+                ...settings,
+                imageBuffer: file.buffer,
+                originalName: file.originalName,
+                contentType: file.contentType,
+                ownerKeyId: manifest.ownerKeyId,
+            }, hooks));
+            Object.assign(item, {
+                status: 'succeeded',
+                imageId: result.imageId,
+                processedUrl: result.processedUrl,
+                format: result.format,
+            });
+            manifest.succeeded++;
+        } catch (error) {
+            logger.error('Batch item error', { batchId: manifest.batchId, index, error });
+            countError(error);
+            const body = errorBody(error, 'Failed to process image');
+            item.status = 'failed';
+            item.error = body.error;
+            item.errorCode = body.code;
+            manifest.failed++;
+        }
+
+        save();
+    });
+
+    manifest.status = 'completed';
+    save();
+    await saving;
+    activeBatches.delete(manifest.batchId);
+}
+
+// Start processing a batch for an API key (null when keys aren't in use) and
+// return its initial manifest
+export async function createBatch(
+    files: BatchFile[],
+    settings: ProcessingSettings,
+    ownerKeyId: string | null
+): Promise<BatchManifest> {
+    const now = new Date().toISOString();
+    const manifest: BatchManifest = {
+        batchId: uuidv4(),
+        ownerKeyId,
+        status: 'processing',
+        createdAt: now,
+        updatedAt: now,
+        total: files.length,
+        succeeded: 0,
+        failed: 0,
+        items: files.map((file, index) => ({
+            index,
+            originalName: file.originalName,
+            status: 'pending',
+            imageId: null,
+            processedUrl: null,
+            format: null,
+            error: null,
+            errorCode: null,
+        })),
+    };
+
+    await saveManifest(manifest);
+    activeBatches.set(manifest.batchId, manifest);
+
+    const initial = structuredClone(manifest);
+    void runBatch(manifest, files, settings);
+    return initial;
+}
+
+// A batch, if it exists and belongs to the API key
+export async function getBatch(batchId: string, ownerKeyId: string | null): Promise<BatchManifest | null> {
+    let manifest = activeBatches.get(batchId);
+    if (manifest) {
+        manifest = structuredClone(manifest);
+    } else {
+        const fileName = manifestFileName(batchId);
+        if (!(await fileExists(fileName))) return null;
+        manifest = JSON.parse((await readImage(fileName)).toString('utf8')) as BatchManifest;
+    }
+
+    if (ownerKeyId !== null && manifest.ownerKeyId !== ownerKeyId) return null;
+
+    // Stored links expire, so hand out fresh ones
+    for (const item of manifest.items) {
+        if (item.imageId) item.processedUrl = viewUrl(item.imageId);
+    }
+    return manifest;
+}
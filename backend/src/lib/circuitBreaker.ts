@@ -0,0 +1,63 @@
+// Fails fast while a dependency is down. After `failureThreshold` failures in
+// a row the circuit opens and calls are rejected for `resetMs`; then a single
+// trial call is let through, which closes the circuit again if it succeeds.
+
+// Wait suggested to callers rejected while the trial call is still running,
+// so they don't come straight back to a circuit that may still be open
+const TRIAL_WAIT_MS = 1000;
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number;
+    resetMs: number;
+    // Which errors count as the dependency failing (default: all of them)
+    isFailure?: (error: unknown) => boolean;
+}
+
+export class CircuitOpenError extends Error {
+    constructor(public readonly retryAfterMs: number) {
+        super('Circuit is open');
+        this.name = 'CircuitOpenError';
+    }
+}
+
+export class CircuitBreaker {
+    private failures = 0;
+    private openedAt: number | null = null;
+    private trialInFlight = false;
+
+    constructor(private readonly options: CircuitBreakerOptions) {}
+
+    get state(): 'closed' | 'open' | 'half-open' {
+        if (this.openedAt === null) return 'closed';
+        return Date.now() - this.openedAt < this.options.resetMs ? 'open' : 'half-open';
+    }
+
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+        const state = this.state;
+        if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+            const elapsed = Date.now() - this.openedAt!;
+            throw new CircuitOpenError(Math.max(this.options.resetMs - elapsed, TRIAL_WAIT_MS));
+        }
+
+        const isTrial = state === 'half-open';
+        if (isTrial) this.trialInFlight = true;
+
+        try {
+            const result = await fn();
+            this.failures = 0;
+            this.openedAt = null;
+            return result;
+        } catch (error) {
+            if (!(this.options.isFailure?.(error) ?? true)) {
+                // The dependency answered, so it's up
+                this.failures = 0;
+                this.openedAt = null;
+            } else if (isTrial || ++this.failures >= this.options.failureThreshold) {
+                this.openedAt = Date.now();
+            }
+            throw error;
+        } finally {
+            if (isTrial) this.trialInFlight = false;
+        }
+    }
+}
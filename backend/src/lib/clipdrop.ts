@@ -1,45 +1,164 @@
-// Clipdrop API integration
-export async function removeBackground(imageBuffer: Buffer): Promise<Buffer> {
-    const apiKey = process.env.CLIPDROP_API_KEY;
+import { setTimeout as sleep } from 'timers/promises';
+import type { BackgroundRemovalProvider } from './backgroundRemover.js';
+import { CircuitBreaker, CircuitOpenError } from './circuitBreaker.js';
+import {
+    ProviderError,
+    ProviderAuthError,
+    ProviderCreditsError,
+    ProviderRateLimitError,
+    ProviderUnavailableError,
+    InvalidImageError,
+} from './errors.js';
+import { logger } from './logger.js';
+import { clipdropRequests } from './metrics.js';
 
-    if (!apiKey) {
-        throw new Error('CLIPDROP_API_KEY environment variable is not set');
+const CLIPDROP_URL = 'https://clipdrop-api.co/remove-background/v1';
+const TIMEOUT_MS = Number(process.env.CLIPDROP_TIMEOUT_MS) || 30000;
+const MAX_RETRIES = Math.max(Number(process.env.CLIPDROP_MAX_RETRIES ?? 2) || 0, 0);
+const BACKOFF_BASE_MS = 500;
+const MAX_RETRY_WAIT_MS = 10000; // Longer Retry-After waits are passed on to the client
+const HEALTH_TIMEOUT_MS = 5000;
+
+// Only outages open the circuit; rate limits and bad images don't
+const breaker = new CircuitBreaker({
+    failureThreshold: Number(process.env.CLIPDROP_BREAKER_THRESHOLD) || 5,
+    resetMs: Number(process.env.CLIPDROP_BREAKER_RESET_MS) || 30000,
+    isFailure: (error) => error instanceof ProviderUnavailableError,
+});
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(Math.ceil(seconds), 0);
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+    const errorText = await response.text().catch(() => '');
+    try {
+        return (JSON.parse(errorText) as { error?: string }).error || 'Failed to remove background';
+    } catch {
+        return errorText || 'Failed to remove background';
+    }
+}
+
+function toProviderError(response: Response, message: string): ProviderError {
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+
+    if (response.status === 401 || response.status === 403) {
+        return new ProviderAuthError('Invalid API Key. Please check your CLIPDROP_API_KEY.');
+    } else if (response.status === 402) {
+        return new ProviderCreditsError('Insufficient credits. Please upgrade your Clipdrop plan.');
+    } else if (response.status === 429) {
+        return new ProviderRateLimitError(retryAfter, 'Rate limit exceeded. Please try again later.');
+    } else if (response.status >= 500) {
+        return new ProviderUnavailableError(retryAfter, 'Clipdrop service is currently unavailable. Please try again later.');
+    } else if (response.status === 400 || response.status === 413 || response.status === 415 || response.status === 422) {
+        return new InvalidImageError(`Clipdrop could not process the image: ${message}`);
     }
 
+    return new ProviderError(502, `Clipdrop API Error: ${message}`, 'provider_error');
+}
+
+// One request to Clipdrop, with a timeout
+async function requestCutout(imageBuffer: Buffer, apiKey: string): Promise<Buffer> {
     const formData = new FormData();
     formData.append('image_file', new Blob([new Uint8Array(imageBuffer)]), 'image.png');
 
-    const response = await fetch('https://clipdrop-api.co/remove-background/v1', {
-        method: 'POST',
-        headers: {
-            'x-api-key': apiKey,
-        },
-        body: formData,
-    });
+    let response: Response;
+    try {
+        response = await fetch(CLIPDROP_URL, {
+            method: 'POST',
+            headers: {
+                'x-api-key': apiKey,
+            },
+            body: formData,
+            signal: AbortSignal.timeout(TIMEOUT_MS),
+        });
+    } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        clipdropRequests.inc({ outcome: timedOut ? 'timeout' : 'network_error' });
+        throw new ProviderUnavailableError(
+            null,
+            timedOut ? `Clipdrop did not respond within ${TIMEOUT_MS / 1000}s` : 'Could not reach Clipdrop'
+        );
+    }
 
     if (!response.ok) {
-        let errorMessage = 'Failed to remove background';
+        const error = toProviderError(response, await readErrorMessage(response));
+        clipdropRequests.inc({ outcome: error.code });
+        throw error;
+    }
+
+    clipdropRequests.inc({ outcome: 'success' });
+    const arrayBuffer = await response.arrayBuffer();
+    return Buffer.from(arrayBuffer);
+}
+
+function isTransient(error: unknown): error is ProviderRateLimitError | ProviderUnavailableError {
+    return error instanceof ProviderRateLimitError || error instanceof ProviderUnavailableError;
+}
+
+// Clipdrop API integration. Rate limits and outages are retried with jittered
+// exponential backoff; during a longer outage the circuit breaker fails fast.
+export async function removeBackgroundWithClipdrop(imageBuffer: Buffer): Promise<Buffer> {
+    const apiKey = process.env.CLIPDROP_API_KEY;
+
+    if (!apiKey) {
+        throw new Error('CLIPDROP_API_KEY environment variable is not set');
+    }
+
+    for (let attempt = 0; ; attempt++) {
         try {
-            const errorJson = await response.json() as { error?: string };
-            errorMessage = errorJson.error || errorMessage;
-        } catch {
-            const errorText = await response.text();
-            if (errorText) errorMessage = errorText;
-        }
+            return await breaker.run(() => requestCutout(imageBuffer, apiKey));
+        } catch (error) {
+            if (error instanceof CircuitOpenError) {
+                throw new ProviderUnavailableError(
+                    Math.ceil(error.retryAfterMs / 1000),
+                    'Clipdrop is experiencing an outage. Please try again shortly.'
+                );
+            }
+            if (!isTransient(error) || attempt >= MAX_RETRIES) throw error;
+
+            // Full jitter: a random wait up to the exponential backoff
+            const waitMs = error.retryAfter !== null
+                ? error.retryAfter * 1000
+                : Math.random() * BACKOFF_BASE_MS * 2 ** attempt;
+            if (waitMs > MAX_RETRY_WAIT_MS) throw error;
 
-        if (response.status === 401) {
-            throw new Error('Invalid API Key. Please check your CLIPDROP_API_KEY.');
-        } else if (response.status === 402) {
-            throw new Error('Insufficient credits. Please upgrade your Clipdrop plan.');
-        } else if (response.status === 429) {
-            throw new Error('Rate limit exceeded. Please try again later.');
-        } else if (response.status >= 500) {
-            throw new Error('Clipdrop service is currently unavailable. Please try again later.');
+            logger.warn('Clipdrop attempt failed, retrying', {
+                attempt: attempt + 1,
+                error,
+                retryInMs: Math.round(waitMs),
+            });
+            await sleep(waitMs);
         }
+    }
+}
 
-        throw new Error(`Clipdrop API Error: ${errorMessage}`);
+// Configured, not in an outage and reachable. Any HTTP answer counts, so the
+// check spends no credits.
+async function checkClipdropHealth(): Promise<void> {
+    if (!process.env.CLIPDROP_API_KEY) {
+        throw new Error('CLIPDROP_API_KEY environment variable is not set');
+    }
+    if (breaker.state === 'open') {
+        throw new Error('Circuit is open after repeated Clipdrop outages');
     }
 
-    const arrayBuffer = await response.arrayBuffer();
-    return Buffer.from(arrayBuffer);
+    try {
+        await fetch(CLIPDROP_URL, { method: 'HEAD', signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+    } catch {
+        throw new Error('Could not reach Clipdrop');
+    }
 }
+
+export const clipdropProvider: BackgroundRemovalProvider = {
+    name: 'clipdrop',
+    removeBackground: removeBackgroundWithClipdrop,
+    checkHealth: checkClipdropHealth,
+};
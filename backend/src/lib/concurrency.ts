@@ -0,0 +1,21 @@
+// Run `worker` over every item with at most `limit` calls in flight.
+// Results keep the input order; a rejected call rejects the whole run, so
+// workers that must not stop the others should catch their own errors.
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const lane = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+    return results;
+}
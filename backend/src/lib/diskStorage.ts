@@ -0,0 +1,125 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { StorageDriver } from './storage.js';
+
+// Root directory for the local disk driver
+export function getDiskStorageRoot(): string {
+    return path.resolve(process.env.LOCAL_STORAGE_DIR || 'storage');
+}
+
+// Resolve a storage key to a path, refusing keys that escape the root
+function resolveKey(fileName: string): string {
+    const root = getDiskStorageRoot();
+    const filePath = path.resolve(root, fileName);
+
+    if (!filePath.startsWith(root + path.sep)) {
+        throw new Error(`Invalid storage key: ${fileName}`);
+    }
+
+    return filePath;
+}
+
+// Write image to disk
+async function uploadImage(
+    imageBuffer: Buffer,
+    fileName: string,
+    _contentType: string = 'image/png'
+): Promise<void> {
+    const filePath = resolveKey(fileName);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, imageBuffer);
+}
+
+// Write a file only if it doesn't exist; the `wx` flag makes the check and
+// the write one step
+async function createFile(
+    buffer: Buffer,
+    fileName: string,
+    _contentType: string = 'application/octet-stream'
+): Promise<boolean> {
+    const filePath = resolveKey(fileName);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+        await fs.writeFile(filePath, buffer, { flag: 'wx' });
+        return true;
+    } catch (error: unknown) {
+        if (error && typeof error === 'object' && 'code' in error && error.code === 'EEXIST') {
+            return false;
+        }
+        throw error;
+    }
+}
+
+// Delete image from disk
+async function deleteImage(fileName: string): Promise<void> {
+    try {
+        await fs.unlink(resolveKey(fileName));
+    } catch (error: unknown) {
+        // Missing file is ok, same as GCS 404
+        if (error && typeof error === 'object' && 'code' in error && error.code !== 'ENOENT') {
+            throw error;
+        }
+    }
+}
+
+// Check if file exists
+async function fileExists(fileName: string): Promise<boolean> {
+    try {
+        const stats = await fs.stat(resolveKey(fileName));
+        return stats.isFile();
+    } catch {
+        return false;
+    }
+}
+
+// Read a file's contents
+async function readImage(fileName: string): Promise<Buffer> {
+    return fs.readFile(resolveKey(fileName));
+}
+
+// List the keys of files whose key starts with a prefix
+async function listFiles(prefix: string): Promise<string[]> {
+    const root = getDiskStorageRoot();
+
+    // Only walk the directory the prefix points into
+    const directory = path.resolve(root, path.dirname(`${prefix}x`));
+    if (directory !== root && !directory.startsWith(root + path.sep)) {
+        throw new Error(`Invalid storage prefix: ${prefix}`);
+    }
+
+    let entries: string[];
+    try {
+        entries = await fs.readdir(directory, { recursive: true });
+    } catch {
+        return [];
+    }
+
+    const fileNames: string[] = [];
+    for (const entry of entries) {
+        const fileName = path.relative(root, path.join(directory, entry)).split(path.sep).join('/');
+        if (fileName.startsWith(prefix) && (await fileExists(fileName))) {
+            fileNames.push(fileName);
+        }
+    }
+
+    return fileNames;
+}
+
+// The root directory exists, or can be created, and is writable
+async function checkHealth(): Promise<void> {
+    const root = getDiskStorageRoot();
+    await fs.mkdir(root, { recursive: true });
+    await fs.access(root, fs.constants.W_OK);
+}
+
+export const diskStorage: StorageDriver = {
+    name: 'local',
+    upload: uploadImage,
+    create: createFile,
+    delete: deleteImage,
+    exists: fileExists,
+    read: readImage,
+    list: listFiles,
+    checkHealth,
+};
@@ -0,0 +1,151 @@
+import type { Response } from 'express';
+import { errors } from './metrics.js';
+import type { ErrorBody } from './apiTypes.js';
+
+export type { ErrorBody } from './apiTypes.js';
+
+// Errors that carry the HTTP status the API should respond with, a code
+// clients can switch on and, when known, seconds until a retry can succeed
+export class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string,
+        public readonly code: string = 'error',
+        public readonly retryAfter: number | null = null
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+// Bad request parameters (400)
+export class ValidationError extends HttpError {
+    constructor(message: string) {
+        super(400, message, 'invalid_request');
+    }
+}
+
+// Unknown resource (404)
+export class NotFoundError extends HttpError {
+    constructor(message: string) {
+        super(404, message, 'not_found');
+    }
+}
+
+// A resource that existed but has been deleted for good (410)
+export class GoneError extends HttpError {
+    constructor(message: string) {
+        super(410, message, 'expired');
+    }
+}
+
+// An upload or download over the size limit (413)
+export class PayloadTooLargeError extends HttpError {
+    constructor(message: string) {
+        super(413, message, 'too_large');
+    }
+}
+
+// A file that is not a supported image (415)
+export class UnsupportedMediaTypeError extends HttpError {
+    constructor(message: string) {
+        super(415, message, 'unsupported_media_type');
+    }
+}
+
+// The image at a URL could not be fetched (422)
+export class RemoteImageError extends HttpError {
+    constructor(message: string) {
+        super(422, message, 'fetch_failed');
+    }
+}
+
+// Missing or unknown API key (401)
+export class UnauthorizedError extends HttpError {
+    constructor(message: string) {
+        super(401, message, 'unauthorized');
+    }
+}
+
+// A client went over its rate limit or daily quota (429)
+export class TooManyRequestsError extends HttpError {
+    constructor(message: string, code: 'rate_limited' | 'quota_exceeded', retryAfter: number) {
+        super(429, message, code, retryAfter);
+    }
+}
+
+// An endpoint this deployment can't serve (501)
+export class NotSupportedError extends HttpError {
+    constructor(message: string) {
+        super(501, message, 'not_supported');
+    }
+}
+
+// Failures of the background removal provider
+export class ProviderError extends HttpError {}
+
+// The provider rejected our credentials, a server misconfiguration (502)
+export class ProviderAuthError extends ProviderError {
+    constructor(message = 'Background removal service rejected the API key') {
+        super(502, message, 'provider_auth');
+    }
+}
+
+// The provider account has run out of credits (503)
+export class ProviderCreditsError extends ProviderError {
+    constructor(message = 'Background removal service is out of credits') {
+        super(503, message, 'provider_credits');
+    }
+}
+
+// The provider is throttling us (429)
+export class ProviderRateLimitError extends ProviderError {
+    constructor(retryAfter: number | null, message = 'Background removal rate limit exceeded') {
+        super(429, message, 'rate_limited', retryAfter);
+    }
+}
+
+// The provider is down, timing out or its circuit is open (503)
+export class ProviderUnavailableError extends ProviderError {
+    constructor(retryAfter: number | null, message = 'Background removal service is currently unavailable') {
+        super(503, message, 'provider_unavailable', retryAfter);
+    }
+}
+
+// The provider could not process the image itself (422)
+export class InvalidImageError extends ProviderError {
+    constructor(message = 'The image could not be processed') {
+        super(422, message, 'invalid_image');
+    }
+}
+
+// HTTP status for any thrown value; unknown errors are server errors
+export function errorStatus(error: unknown): number {
+    return error instanceof HttpError ? error.status : 500;
+}
+
+// JSON error body for any thrown value
+export function errorBody(error: unknown, fallbackMessage: string): ErrorBody {
+    const body: ErrorBody = {
+        error: error instanceof Error ? error.message : fallbackMessage,
+        code: error instanceof HttpError ? error.code : 'internal_error',
+    };
+    if (error instanceof HttpError && error.retryAfter !== null) {
+        body.retryAfter = error.retryAfter;
+    }
+    return body;
+}
+
+// Count a failure in the errors_total metric by its code
+export function countError(error: unknown): void {
+    errors.inc({ code: error instanceof HttpError ? error.code : 'internal_error' });
+}
+
+// Respond with the error's status and body, plus Retry-After when known
+export function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+    countError(error);
+    if (error instanceof HttpError && error.retryAfter !== null) {
+        res.setHeader('Retry-After', String(error.retryAfter));
+    }
+    res.status(errorStatus(error)).json(errorBody(error, fallbackMessage));
+}
@@ -0,0 +1,52 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { ApiKeyRecord, ApiKeyStore } from './apiKeys.js';
+
+// API keys in a JSON file, cached in memory and reloaded when the file
+// changes, so keys issued or revoked by the admin command apply without a restart
+
+function getKeysFile(): string {
+    return path.resolve(process.env.API_KEYS_FILE || 'api-keys.json');
+}
+
+let cache: { mtimeMs: number; records: ApiKeyRecord[] } | null = null;
+
+async function listKeys(): Promise<ApiKeyRecord[]> {
+    const keysFile = getKeysFile();
+
+    let mtimeMs: number;
+    try {
+        mtimeMs = (await fs.stat(keysFile)).mtimeMs;
+    } catch {
+        return []; // No file yet, no keys
+    }
+
+    if (cache?.mtimeMs !== mtimeMs) {
+        cache = { mtimeMs, records: JSON.parse(await fs.readFile(keysFile, 'utf8')) as ApiKeyRecord[] };
+    }
+
+    return cache.records;
+}
+
+async function findKeyByHash(hash: string): Promise<ApiKeyRecord | null> {
+    return (await listKeys()).find((record) => record.hash === hash) ?? null;
+}
+
+// Insert or replace a record. Written to a temporary file and renamed so the
+// server never reads half a file.
+async function saveKey(record: ApiKeyRecord): Promise<void> {
+    const records = (await listKeys()).filter((existing) => existing.id !== record.id);
+    records.push(record);
+
+    const keysFile = getKeysFile();
+    await fs.writeFile(`${keysFile}.tmp`, JSON.stringify(records, null, 2), { mode: 0o600 });
+    await fs.rename(`${keysFile}.tmp`, keysFile);
+    cache = null;
+}
+
+export const fileKeyStore: ApiKeyStore = {
+    name: 'file',
+    list: listKeys,
+    findByHash: findKeyByHash,
+    save: saveKey,
+};
@@ -0,0 +1,47 @@
+import { getBackgroundRemover } from './backgroundRemover.js';
+import { getStorageDriver } from './storage.js';
+import type { DependencyHealth, HealthReport } from './apiTypes.js';
+
+export type { DependencyHealth, HealthReport } from './apiTypes.js';
+
+const CHECK_TIMEOUT_MS = 5000;
+
+// Run one check with a time limit, reporting failures instead of throwing
+async function runCheck(name: string, check: () => Promise<void>): Promise<DependencyHealth> {
+    const started = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`No answer within ${CHECK_TIMEOUT_MS / 1000}s`)), CHECK_TIMEOUT_MS);
+    });
+
+    try {
+        await Promise.race([check(), timeout]);
+        return { name, status: 'ok', latencyMs: Date.now() - started };
+    } catch (error) {
+        return {
+            name,
+            status: 'error',
+            latencyMs: Date.now() - started,
+            error: error instanceof Error ? error.message : String(error),
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// Whether storage and the background removal provider can be reached
+export async function checkHealth(): Promise<HealthReport> {
+    const storage = getStorageDriver();
+    const provider = getBackgroundRemover();
+
+    const [storageHealth, providerHealth] = await Promise.all([
+        runCheck(storage.name, () => storage.checkHealth()),
+        runCheck(provider.name, () => provider.checkHealth?.() ?? Promise.resolve()),
+    ]);
+
+    return {
+        status: storageHealth.status === 'ok' && providerHealth.status === 'ok' ? 'ok' : 'degraded',
+        storage: storageHealth,
+        provider: providerHealth,
+    };
+}
@@ -1,18 +1,1005 @@
 import sharp from 'sharp';
+import { removeBackgroundCached } from './resultCache.js';
+import { PayloadTooLargeError, ValidationError } from './errors.js';
+import { MAX_IMAGE_MEGAPIXELS, MAX_PIXELS } from './imageValidation.js';
+import type {
+    AutoCropOptions,
+    BackgroundFill,
+    CacheStatus,
+    FlipDirection,
+    MaskRefinement,
+    OutputFormat,
+    OutputOptions,
+    PipelineOperation,
+    ResizeFit,
+} from './apiTypes.js';
 
-// Convert any image to PNG 
+// The pipeline's types are part of the API, so they live with its other types
+export type {
+    AutoCropOptions,
+    BackgroundFill,
+    FlipDirection,
+    MaskRefinement,
+    OutputFormat,
+    OutputOptions,
+    PipelineOperation,
+    ResizeFit,
+} from './apiTypes.js';
+
+export const OUTPUT_FORMATS: Record<OutputFormat, { extension: string; contentType: string; alpha: boolean }> = {
+    png: { extension: 'png', contentType: 'image/png', alpha: true },
+    webp: { extension: 'webp', contentType: 'image/webp', alpha: true },
+    avif: { extension: 'avif', contentType: 'image/avif', alpha: true },
+    jpeg: { extension: 'jpg', contentType: 'image/jpeg', alpha: false },
+};
+
+export const DEFAULT_OUTPUT: OutputOptions = { format: 'png', quality: 80, flattenColor: '#ffffff' };
+
+// Inputs to the pipeline besides the image itself. `cutout` is filled in with
+// the transparent image as it was just before the first background step, and
+// `cache` with whether background removal reused a cached result, and
+// `cacheKeys` with the result cache entries it read or wrote.
+// `removalMask` is the alpha mask background removal produced. Passing one in
+// reuses it instead of calling the provider, as long as it matches the size
+// of the image being cut out.
+// `onOperation` is called as each step starts, and `signal` is checked
+// between steps so a cancelled run stops early.
+export interface PipelineContext {
+    backgroundImage?: Buffer;
+    cutout?: Buffer;
+    cache?: CacheStatus;
+    cacheKeys?: string[];
+    removalMask?: Buffer;
+    onOperation?: (operation: PipelineOperation) => void;
+    signal?: AbortSignal;
+}
+
+// What /api/upload did before pipelines were configurable
+export const DEFAULT_OPERATIONS: PipelineOperation[] = [
+    { type: 'removeBackground' },
+    { type: 'flip', direction: 'horizontal' },
+];
+
+const MAX_OPERATIONS = 20;
+const MAX_DIMENSION = 10000;
+const FLIP_DIRECTIONS: FlipDirection[] = ['horizontal', 'vertical'];
+const RESIZE_FITS: ResizeFit[] = ['contain', 'cover', 'fill', 'inside', 'outside'];
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const BACKGROUND_MODES: BackgroundFill['mode'][] = ['color', 'linear', 'radial', 'image'];
+const MAX_GRADIENT_STOPS = 8;
+const MAX_MASK_SHIFT = 20;
+const MAX_FEATHER = 50;
+const DECONTAMINATION_SIGMA = 4;
+const MAX_EFFECT_SIZE = 500;
+const THUMBNAIL_SIZE = 320;
+const ASPECT_RATIO = /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/;
+const MAX_ASPECT_RATIO = 20;
+
+// Format and dimensions of an encoded image
+export async function getImageInfo(imageBuffer: Buffer): Promise<{ format: string; width: number; height: number; size: number }> {
+    const { format = 'unknown', width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+    return { format, width, height, size: imageBuffer.length };
+}
+
+// Convert any image to PNG, upright according to its EXIF orientation
 export async function convertToPng(imageBuffer: Buffer): Promise<Buffer> {
     return sharp(imageBuffer)
+        .rotate()
+        .png()
+        .toBuffer();
+}
+
+// Flip an image horizontally or vertically
+export async function flipImage(imageBuffer: Buffer, direction: FlipDirection): Promise<Buffer> {
+    const image = sharp(imageBuffer);
+    return (direction === 'horizontal' ? image.flop() : image.flip())
+        .png()
+        .toBuffer();
+}
+
+// Rotate clockwise by any angle, filling uncovered corners with transparency
+export async function rotateImage(imageBuffer: Buffer, angle: number): Promise<Buffer> {
+    return sharp(imageBuffer)
+        .rotate(angle, { background: { r: 0, g: 0, b: 0, alpha: 0 } })
+        .png()
+        .toBuffer();
+}
+
+export async function resizeImage(
+    imageBuffer: Buffer,
+    width: number | undefined,
+    height: number | undefined,
+    fit: ResizeFit
+): Promise<Buffer> {
+    return sharp(imageBuffer)
+        .resize({ width, height, fit, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+        .png()
+        .toBuffer();
+}
+
+export async function cropImage(
+    imageBuffer: Buffer,
+    area: { left: number; top: number; width: number; height: number }
+): Promise<Buffer> {
+    const { width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+
+    if (area.left + area.width > width || area.top + area.height > height) {
+        throw new ValidationError(`Crop area exceeds image bounds (${width}x${height})`);
+    }
+
+    return sharp(imageBuffer)
+        .extract(area)
         .png()
         .toBuffer();
 }
 
-// Horizontally flip an image
-export async function flipImageHorizontally(imageBuffer: Buffer): Promise<Buffer> {
+export async function padImage(
+    imageBuffer: Buffer,
+    padding: { top: number; right: number; bottom: number; left: number },
+    color: string
+): Promise<Buffer> {
     return sharp(imageBuffer)
-        .flop()
+        .extend({ ...padding, background: color })
+        .png()
+        .toBuffer();
+}
+
+// The alpha channel of an image as a grayscale PNG
+export async function extractMask(imageBuffer: Buffer): Promise<Buffer> {
+    return sharp(imageBuffer)
+        .ensureAlpha()
+        .extractChannel('alpha')
+        .png()
+        .toBuffer();
+}
+
+// Use a grayscale mask as the alpha channel of an image of the same size
+export async function applyMask(imageBuffer: Buffer, mask: Buffer): Promise<Buffer> {
+    // sharp drops alpha late in its pipeline, so it needs a pass of its own
+    const [opaque, alpha] = await Promise.all([
+        sharp(imageBuffer).removeAlpha().png().toBuffer(),
+        sharp(mask).extractChannel(0).png().toBuffer(),
+    ]);
+    return sharp(opaque)
+        .joinChannel(alpha)
+        .png()
+        .toBuffer();
+}
+
+// One pass of a running maximum over a `size`-wide window centred on each
+// pixel, along rows or columns. Uses van Herk/Gil-Werman: maxima from the
+// start and to the end of blocks of `size` pixels, two of which cover any
+// window, so the cost per pixel doesn't depend on the window size. Lines are
+// padded with zeros, so windows at the edges only see the image.
+function maxFilterPass(source: Uint8Array, width: number, height: number, radius: number, horizontal: boolean): Uint8Array {
+    const target = new Uint8Array(source.length);
+    const [lines, length, step] = horizontal ? [height, width, 1] : [width, height, width];
+    const size = 2 * radius + 1;
+    const padded = new Uint8Array(length + 2 * radius);
+    const fromBlockStart = new Uint8Array(padded.length);
+    const toBlockEnd = new Uint8Array(padded.length);
+
+    for (let line = 0; line < lines; line++) {
+        const start = horizontal ? line * width : line;
+        for (let pos = 0; pos < length; pos++) padded[radius + pos] = source[start + pos * step];
+
+        for (let i = 0; i < padded.length; i++) {
+            const value = padded[i];
+            fromBlockStart[i] = i % size === 0 || value > fromBlockStart[i - 1] ? value : fromBlockStart[i - 1];
+        }
+        for (let i = padded.length - 1; i >= 0; i--) {
+            const value = padded[i];
+            const blockEnd = i % size === size - 1 || i === padded.length - 1;
+            toBlockEnd[i] = blockEnd || value > toBlockEnd[i + 1] ? value : toBlockEnd[i + 1];
+        }
+
+        // The window of pos spans padded[pos..pos + 2 * radius]
+        for (let pos = 0; pos < length; pos++) {
+            const left = toBlockEnd[pos];
+            const right = fromBlockStart[pos + 2 * radius];
+            target[start + pos * step] = left > right ? left : right;
+        }
+    }
+    return target;
+}
+
+function invertMask(mask: Uint8Array): Uint8Array {
+    const inverted = new Uint8Array(mask.length);
+    for (let i = 0; i < mask.length; i++) inverted[i] = 255 - mask[i];
+    return inverted;
+}
+
+// Grow (max) or shrink (min) a single-channel mask by `radius` pixels. The
+// square window is applied as a horizontal pass followed by a vertical one;
+// shrinking is growing the inverted mask. A radius past the image's size
+// would cover all of it anyway, so it is capped there.
+function morphMask(mask: Uint8Array, width: number, height: number, radius: number, grow: boolean): Uint8Array {
+    radius = Math.min(radius, Math.max(width, height));
+    if (radius === 0) return mask;
+
+    const source = grow ? mask : invertMask(mask);
+    const horizontal = maxFilterPass(source, width, height, radius, true);
+    const result = maxFilterPass(horizontal, width, height, radius, false);
+    return grow ? result : invertMask(result);
+}
+
+// Blur a single-channel mask. sharp's smallest sigma is 0.3, and it would
+// otherwise write the result out as three channels.
+async function blurAlpha(alpha: Buffer, width: number, height: number, sigma: number): Promise<Buffer> {
+    if (sigma <= 0) return alpha;
+    return sharp(alpha, { raw: { width, height, channels: 1 } })
+        .blur(Math.max(0.3, sigma))
+        .extractChannel(0)
+        .raw()
+        .toBuffer();
+}
+
+export async function refineMask(imageBuffer: Buffer, refinement: MaskRefinement): Promise<Buffer> {
+    const { data, info } = await sharp(imageBuffer)
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    const { width, height } = info;
+    const raw = { width, height, channels: 4 as const };
+    let alpha: Uint8Array = new Uint8Array(width * height);
+    for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+
+    if (refinement.threshold !== undefined) {
+        const threshold = refinement.threshold;
+        alpha = alpha.map((value) => (value >= threshold ? 255 : 0));
+    }
+    if (refinement.shift) {
+        alpha = morphMask(alpha, width, height, Math.abs(refinement.shift), refinement.shift > 0);
+    }
+    if (refinement.feather) {
+        alpha = await blurAlpha(Buffer.from(alpha), width, height, refinement.feather / 2);
+    }
+    for (let i = 0; i < alpha.length; i++) data[i * 4 + 3] = alpha[i];
+
+    if (refinement.decontaminate) {
+        // sharp blurs with premultiplied alpha, so each blurred pixel is the
+        // opacity-weighted average colour around it: mostly subject colour
+        // near an edge. Faint pixels take more of it than solid ones.
+        const subject = await sharp(data, { raw })
+            .blur(DECONTAMINATION_SIGMA)
+            .raw()
+            .toBuffer();
+        for (let i = 0; i < alpha.length; i++) {
+            const a = alpha[i] / 255;
+            if (a === 0 || a === 1) continue;
+            for (let c = 0; c < 3; c++) {
+                const j = i * 4 + c;
+                data[j] = Math.round(data[j] * a + subject[j] * (1 - a));
+            }
+        }
+    }
+
+    return sharp(data, { raw })
+        .png()
+        .toBuffer();
+}
+
+// The raw alpha channel of an image, one byte per pixel
+async function readAlpha(imageBuffer: Buffer): Promise<{ alpha: Buffer; width: number; height: number }> {
+    const { data, info } = await sharp(imageBuffer)
+        .ensureAlpha()
+        .extractChannel('alpha')
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    return { alpha: data, width: info.width, height: info.height };
+}
+
+// Bounding box of the pixels more opaque than `threshold`, or null when
+// there are none
+async function subjectBounds(
+    imageBuffer: Buffer,
+    threshold: number
+): Promise<{ left: number; top: number; width: number; height: number } | null> {
+    const { alpha: data, width, height } = await readAlpha(imageBuffer);
+    let left = width, top = height, right = -1, bottom = -1;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[y * width + x] <= threshold) continue;
+            if (x < left) left = x;
+            if (x > right) right = x;
+            if (y < top) top = y;
+            if (y > bottom) bottom = y;
+        }
+    }
+
+    return right === -1 ? null : { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+// Transparent padding that centres an image of `width`x`height` on a canvas of
+// `canvasWidth`x`canvasHeight`
+function centredPadding(width: number, height: number, canvasWidth: number, canvasHeight: number) {
+    const x = Math.max(0, canvasWidth - width);
+    const y = Math.max(0, canvasHeight - height);
+    return { left: Math.floor(x / 2), right: Math.ceil(x / 2), top: Math.floor(y / 2), bottom: Math.ceil(y / 2) };
+}
+
+// Images with nothing opaque enough are left as they are
+export async function autoCropImage(imageBuffer: Buffer, options: AutoCropOptions): Promise<Buffer> {
+    const bounds = await subjectBounds(imageBuffer, options.alphaThreshold);
+    if (!bounds) return imageBuffer;
+
+    const transparent = { r: 0, g: 0, b: 0, alpha: 0 };
+    const { padding } = options;
+    let subject = await sharp(imageBuffer).ensureAlpha().extract(bounds).png().toBuffer();
+    let { width, height } = bounds;
+
+    if (options.width !== undefined && options.height !== undefined) {
+        const inner = {
+            width: Math.max(1, options.width - 2 * padding),
+            height: Math.max(1, options.height - 2 * padding),
+        };
+        const resized = await sharp(subject)
+            .resize({ ...inner, fit: 'inside' })
+            .toBuffer({ resolveWithObject: true });
+        subject = resized.data;
+        width = resized.info.width;
+        height = resized.info.height;
+
+        return sharp(subject)
+            .extend({ ...centredPadding(width, height, options.width, options.height), background: transparent })
+            .png()
+            .toBuffer();
+    }
+
+    let canvasWidth = width + 2 * padding;
+    let canvasHeight = height + 2 * padding;
+    if (options.aspectRatio !== undefined) {
+        if (canvasWidth / canvasHeight < options.aspectRatio) {
+            canvasWidth = Math.round(canvasHeight * options.aspectRatio);
+        } else {
+            canvasHeight = Math.round(canvasWidth / options.aspectRatio);
+        }
+    }
+
+    return sharp(subject)
+        .extend({ ...centredPadding(width, height, canvasWidth, canvasHeight), background: transparent })
+        .png()
+        .toBuffer();
+}
+
+// Put a solid-colour layer shaped by `alpha` underneath the image. Effects
+// draw inside the current canvas, so `pad` or `autoCrop` first to make room.
+async function underlay(imageBuffer: Buffer, alpha: Buffer, width: number, height: number, color: string): Promise<Buffer> {
+    const { hex, opacity } = splitColor(color);
+    const shaped = opacity === 1 ? alpha : Buffer.from(alpha.map((value) => Math.round(value * opacity)));
+    const layer = await sharp({ create: { width, height, channels: 3, background: hex } })
+        .joinChannel(shaped, { raw: { width, height, channels: 1 } })
+        .png()
+        .toBuffer();
+
+    return sharp(layer)
+        .composite([{ input: imageBuffer }])
+        .png()
+        .toBuffer();
+}
+
+// A blurred copy of the subject's silhouette, offset behind it
+export async function dropShadow(
+    imageBuffer: Buffer,
+    options: { offsetX: number; offsetY: number; blur: number; opacity: number; color: string }
+): Promise<Buffer> {
+    const { alpha, width, height } = await readAlpha(imageBuffer);
+    const { offsetX, offsetY } = options;
+    const shifted = Buffer.alloc(alpha.length);
+
+    for (let y = Math.max(0, offsetY); y < Math.min(height, height + offsetY); y++) {
+        for (let x = Math.max(0, offsetX); x < Math.min(width, width + offsetX); x++) {
+            shifted[y * width + x] = Math.round(alpha[(y - offsetY) * width + x - offsetX] * options.opacity);
+        }
+    }
+
+    return underlay(imageBuffer, await blurAlpha(shifted, width, height, options.blur / 2), width, height, options.color);
+}
+
+// A soft ellipse under the bottom of the subject, as if it stood on a
+// surface. `spread` is the ellipse width relative to the subject's.
+export async function contactShadow(
+    imageBuffer: Buffer,
+    options: { spread: number; blur: number; opacity: number; color: string }
+): Promise<Buffer> {
+    const bounds = await subjectBounds(imageBuffer, 0);
+    if (!bounds) return imageBuffer;
+
+    const { width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+    const rx = Math.max(1, (bounds.width * options.spread) / 2);
+    const ry = Math.max(1, rx * 0.12);
+    const svg = Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        `<ellipse cx="${bounds.left + bounds.width / 2}" cy="${bounds.top + bounds.height - ry / 2}" ` +
+        `rx="${rx}" ry="${ry}" fill="#fff" fill-opacity="${options.opacity}"/></svg>`
+    );
+    const ellipse = await sharp(svg).extractChannel('alpha').raw().toBuffer();
+
+    return underlay(imageBuffer, await blurAlpha(ellipse, width, height, options.blur / 2), width, height, options.color);
+}
+
+// A solid border around the subject, as on a sticker. The silhouette is grown
+// by blurring it and keeping everything the blur reached, which rounds the
+// corners the way a circular brush would.
+export async function outlineSubject(imageBuffer: Buffer, options: { width: number; color: string }): Promise<Buffer> {
+    const { alpha, width, height } = await readAlpha(imageBuffer);
+    const spread = await blurAlpha(alpha, width, height, options.width / 2);
+    const grown = Buffer.from(spread.map((value) => (value > 5 ? 255 : 0)));
+
+    return underlay(imageBuffer, await blurAlpha(grown, width, height, 0.5), width, height, options.color);
+}
+
+// Split a hex colour into its RGB part and its opacity (1 when it has no alpha digits)
+function splitColor(color: string): { hex: string; opacity: number } {
+    let hex = color.slice(1);
+    if (hex.length === 3) hex = hex.split('').map((c) => c + c).join('');
+    const opacity = hex.length === 8 ? parseInt(hex.slice(6), 16) / 255 : 1;
+    return { hex: `#${hex.slice(0, 6)}`, opacity };
+}
+
+function svgStop(color: string, offset: number): string {
+    const { hex, opacity } = splitColor(color);
+    return `<stop offset="${offset}" stop-color="${hex}" stop-opacity="${opacity}"/>`;
+}
+
+function gradientSvg(fill: { mode: 'linear' | 'radial'; colors: string[]; angle?: number }, width: number, height: number): Buffer {
+    const stops = fill.colors
+        .map((color, i) => svgStop(color, fill.colors.length > 1 ? i / (fill.colors.length - 1) : 0))
+        .join('');
+
+    let gradient: string;
+    if (fill.mode === 'linear') {
+        // CSS convention: 0deg points up, 90deg points right
+        const radians = ((fill.angle ?? 180) * Math.PI) / 180;
+        const dx = Math.sin(radians) / 2;
+        const dy = -Math.cos(radians) / 2;
+        gradient = `<linearGradient id="g" x1="${0.5 - dx}" y1="${0.5 - dy}" x2="${0.5 + dx}" y2="${0.5 + dy}">${stops}</linearGradient>`;
+    } else {
+        gradient = `<radialGradient id="g" cx="0.5" cy="0.5" r="0.75">${stops}</radialGradient>`;
+    }
+
+    return Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        `<defs>${gradient}</defs><rect width="100%" height="100%" fill="url(#g)"/></svg>`
+    );
+}
+
+// Render a background of the given size
+async function renderBackground(
+    fill: BackgroundFill,
+    width: number,
+    height: number,
+    backgroundImage?: Buffer
+): Promise<Buffer> {
+    switch (fill.mode) {
+        case 'color':
+            return sharp({ create: { width, height, channels: 4, background: fill.color } })
+                .png()
+                .toBuffer();
+        case 'linear':
+        case 'radial':
+            return sharp(gradientSvg(fill, width, height))
+                .png()
+                .toBuffer();
+        case 'image':
+            if (!backgroundImage) {
+                throw new ValidationError('A background image file is required for the image background mode');
+            }
+            return sharp(backgroundImage)
+                .resize(width, height, { fit: 'cover' })
+                .png()
+                .toBuffer();
+    }
+}
+
+// Composite the image (usually a cutout) over a colour, gradient or image
+export async function replaceBackground(
+    imageBuffer: Buffer,
+    fill: BackgroundFill,
+    backgroundImage?: Buffer
+): Promise<Buffer> {
+    const { width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+    const background = await renderBackground(fill, width, height, backgroundImage);
+
+    return sharp(background)
+        .composite([{ input: imageBuffer }])
         .png()
         .toBuffer();
 }
 
+// Small WebP preview for image listings
+export async function createThumbnail(imageBuffer: Buffer): Promise<Buffer> {
+    return sharp(imageBuffer)
+        .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 75 })
+        .toBuffer();
+}
+
+// Encode the pipeline's PNG result in the requested output format
+export async function encodeImage(imageBuffer: Buffer, output: OutputOptions): Promise<Buffer> {
+    const image = sharp(imageBuffer);
+    const { quality } = output;
+
+    switch (output.format) {
+        case 'png':
+            return image.png().toBuffer();
+        case 'webp':
+            return image.webp({ quality, alphaQuality: quality }).toBuffer();
+        case 'avif':
+            return image.avif({ quality }).toBuffer();
+        case 'jpeg':
+            return image.flatten({ background: output.flattenColor }).jpeg({ quality, mozjpeg: true }).toBuffer();
+    }
+}
+
+async function sameSize(a: Buffer, b: Buffer): Promise<boolean> {
+    const [first, second] = await Promise.all([sharp(a).metadata(), sharp(b).metadata()]);
+    return first.width === second.width && first.height === second.height;
+}
+
+// Size of the image after a step, at most: exact for the geometric steps, an
+// upper bound where it depends on the image's contents (autoCrop)
+function sizeAfter(operation: PipelineOperation, width: number, height: number): { width: number; height: number } {
+    switch (operation.type) {
+        case 'rotate': {
+            const radians = (operation.angle * Math.PI) / 180;
+            const cos = Math.abs(Math.cos(radians));
+            const sin = Math.abs(Math.sin(radians));
+            return { width: Math.ceil(width * cos + height * sin), height: Math.ceil(width * sin + height * cos) };
+        }
+        case 'resize': {
+            const scaleX = operation.width === undefined ? undefined : operation.width / width;
+            const scaleY = operation.height === undefined ? undefined : operation.height / height;
+            if (scaleX === undefined || scaleY === undefined) {
+                const scale = (scaleX ?? scaleY)!;
+                return { width: Math.round(width * scale), height: Math.round(height * scale) };
+            }
+            if (operation.fit === 'outside') {
+                const scale = Math.max(scaleX, scaleY);
+                return { width: Math.round(width * scale), height: Math.round(height * scale) };
+            }
+            return { width: operation.width!, height: operation.height! };
+        }
+        case 'crop':
+            return { width: operation.width, height: operation.height };
+        case 'pad':
+            return { width: width + operation.left + operation.right, height: height + operation.top + operation.bottom };
+        case 'autoCrop': {
+            if (operation.width !== undefined && operation.height !== undefined) {
+                return { width: operation.width, height: operation.height };
+            }
+            const canvasWidth = width + 2 * operation.padding;
+            const canvasHeight = height + 2 * operation.padding;
+            if (operation.aspectRatio === undefined) return { width: canvasWidth, height: canvasHeight };
+            return {
+                width: Math.max(canvasWidth, Math.round(canvasHeight * operation.aspectRatio)),
+                height: Math.max(canvasHeight, Math.round(canvasWidth / operation.aspectRatio)),
+            };
+        }
+        default:
+            return { width, height };
+    }
+}
+
+// Refuse a pipeline whose steps would grow an image of `width`x`height` past
+// the upload pixel limit at any point, before any work is done. Padding and
+// upscaling build their whole canvas in memory, so one step can't be allowed
+// to go further than an upload could.
+export function checkPipelineSize(operations: PipelineOperation[], width: number, height: number): void {
+    operations.forEach((operation, index) => {
+        ({ width, height } = sizeAfter(operation, width, height));
+        if (width * height > MAX_PIXELS) {
+            throw new PayloadTooLargeError(
+                `operations[${index}] (${operation.type}) would make the image ${width}x${height} pixels; ` +
+                `at most ${MAX_IMAGE_MEGAPIXELS} megapixels are allowed`
+            );
+        }
+    });
+}
+
+// Run each operation in order; every step hands a PNG to the next
+export async function runPipeline(
+    imageBuffer: Buffer,
+    operations: PipelineOperation[],
+    context: PipelineContext = {}
+): Promise<Buffer> {
+    const { width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+    checkPipelineSize(operations, width, height);
+
+    let buffer = imageBuffer;
+    let removed = false;
+
+    for (const operation of operations) {
+        context.signal?.throwIfAborted();
+        context.onOperation?.(operation);
+
+        switch (operation.type) {
+            case 'removeBackground': {
+                const firstRemoval = !removed;
+                removed = true;
+                if (firstRemoval && context.removalMask && (await sameSize(buffer, context.removalMask))) {
+                    buffer = await applyMask(buffer, context.removalMask);
+                    context.cache ??= 'hit';
+                    break;
+                }
+                const result = await removeBackgroundCached(buffer);
+                buffer = result.buffer;
+                if (firstRemoval) context.removalMask = await extractMask(buffer);
+                // One miss means the provider was called
+                context.cache = context.cache === 'miss' ? 'miss' : result.cache;
+                if (result.cacheKey) context.cacheKeys = [...(context.cacheKeys ?? []), result.cacheKey];
+                break;
+            }
+            case 'refineMask': {
+                const { type: _type, ...refinement } = operation;
+                buffer = await refineMask(buffer, refinement);
+                break;
+            }
+            case 'autoCrop': {
+                const { type: _type, ...options } = operation;
+                buffer = await autoCropImage(buffer, options);
+                break;
+            }
+            case 'dropShadow':
+                buffer = await dropShadow(buffer, operation);
+                break;
+            case 'contactShadow':
+                buffer = await contactShadow(buffer, operation);
+                break;
+            case 'outline':
+                buffer = await outlineSubject(buffer, operation);
+                break;
+            case 'flip':
+                buffer = await flipImage(buffer, operation.direction);
+                break;
+            case 'rotate':
+                buffer = await rotateImage(buffer, operation.angle);
+                break;
+            case 'resize':
+                buffer = await resizeImage(buffer, operation.width, operation.height, operation.fit);
+                break;
+            case 'crop': {
+                const { left, top, width, height } = operation;
+                buffer = await cropImage(buffer, { left, top, width, height });
+                break;
+            }
+            case 'pad': {
+                const { top, right, bottom, left } = operation;
+                buffer = await padImage(buffer, { top, right, bottom, left }, operation.color);
+                break;
+            }
+            case 'background': {
+                const { type: _type, ...fill } = operation;
+                context.cutout ??= buffer;
+                buffer = await replaceBackground(buffer, fill, context.backgroundImage);
+                break;
+            }
+        }
+    }
+
+    return buffer;
+}
+
+// Validation helpers for operations coming from the request body
+
+function fieldName(path: string, field: string): string {
+    return path ? `${path}.${field}` : field;
+}
+
+function integerField(
+    op: Record<string, unknown>,
+    field: string,
+    path: string,
+    { min, max, optional = false }: { min: number; max: number; optional?: boolean }
+): number | undefined {
+    const value = op[field];
+
+    if (value === undefined && optional) {
+        return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+        throw new ValidationError(`${fieldName(path, field)} must be an integer`);
+    }
+    if (value < min || value > max) {
+        throw new ValidationError(`${fieldName(path, field)} must be between ${min} and ${max}`);
+    }
+
+    return value;
+}
+
+function enumField<T extends string>(
+    op: Record<string, unknown>,
+    field: string,
+    path: string,
+    allowed: T[],
+    fallback?: T
+): T {
+    const value = op[field] ?? fallback;
+
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+        throw new ValidationError(`${fieldName(path, field)} must be one of: ${allowed.join(', ')}`);
+    }
+
+    return value as T;
+}
+
+function colorField(op: Record<string, unknown>, field: string, path: string, fallback: string): string {
+    const value = op[field] ?? fallback;
+
+    if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+        throw new ValidationError(`${fieldName(path, field)} must be a hex colour like #ffffff`);
+    }
+
+    return value;
+}
+
+function opacityField(op: Record<string, unknown>, field: string, path: string, fallback: number): number {
+    const value = op[field] ?? fallback;
+
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+        throw new ValidationError(`${fieldName(path, field)} must be a number between 0 and 1`);
+    }
+
+    return value;
+}
+
+// An aspect ratio as "width:height" (e.g. "4:5") or a number, as width over height
+function aspectRatioField(op: Record<string, unknown>, field: string, path: string): number | undefined {
+    const value = op[field];
+    if (value === undefined) return undefined;
+
+    let ratio = NaN;
+    if (typeof value === 'number') {
+        ratio = value;
+    } else if (typeof value === 'string') {
+        const match = ASPECT_RATIO.exec(value);
+        if (match) ratio = Number(match[1]) / Number(match[2]);
+    }
+
+    if (!Number.isFinite(ratio) || ratio < 1 / MAX_ASPECT_RATIO || ratio > MAX_ASPECT_RATIO) {
+        throw new ValidationError(
+            `${fieldName(path, field)} must be a ratio like "1:1" or "4:5" between 1:${MAX_ASPECT_RATIO} and ${MAX_ASPECT_RATIO}:1`
+        );
+    }
+
+    return ratio;
+}
+
+function colorListField(op: Record<string, unknown>, field: string, path: string): string[] {
+    const value = op[field];
+
+    if (!Array.isArray(value) || value.length < 2 || value.length > MAX_GRADIENT_STOPS) {
+        throw new ValidationError(`${fieldName(path, field)} must be a list of 2 to ${MAX_GRADIENT_STOPS} hex colours`);
+    }
+
+    return value.map((color, i) => {
+        if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+            throw new ValidationError(`${fieldName(path, field)}[${i}] must be a hex colour like #ffffff`);
+        }
+        return color;
+    });
+}
+
+function parseBackgroundFillFields(op: Record<string, unknown>, path: string): BackgroundFill {
+    const mode = enumField(op, 'mode', path, BACKGROUND_MODES, 'color');
+
+    switch (mode) {
+        case 'color':
+            return { mode, color: colorField(op, 'color', path, '#ffffff') };
+        case 'linear': {
+            const angle = op.angle ?? 180;
+            if (typeof angle !== 'number' || !Number.isFinite(angle)) {
+                throw new ValidationError(`${path}.angle must be a number`);
+            }
+            return { mode, colors: colorListField(op, 'colors', path), angle };
+        }
+        case 'radial':
+            return { mode, colors: colorListField(op, 'colors', path) };
+        case 'image':
+            return { mode };
+    }
+}
+
+// Parse a standalone background fill, e.g. from the replace-background endpoint
+export function parseBackgroundFill(raw: unknown, path = 'fill'): BackgroundFill {
+    let value = raw;
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value);
+        } catch {
+            throw new ValidationError(`${path} must be valid JSON`);
+        }
+    }
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ValidationError(`${path} must be an object`);
+    }
+
+    return parseBackgroundFillFields(value as Record<string, unknown>, path);
+}
+
+// The steps that run before background removal. A stored removal mask can
+// only be reused while these stay the same.
+export function operationsBeforeRemoval(operations: PipelineOperation[]): PipelineOperation[] | null {
+    const index = operations.findIndex((op) => op.type === 'removeBackground');
+    return index === -1 ? null : operations.slice(0, index);
+}
+
+// Whether any step needs an uploaded background image
+export function needsBackgroundImage(operations: PipelineOperation[]): boolean {
+    return operations.some((op) => op.type === 'background' && op.mode === 'image');
+}
+
+function parseOperation(raw: unknown, index: number): PipelineOperation {
+    const path = `operations[${index}]`;
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ValidationError(`${path} must be an object`);
+    }
+
+    const op = raw as Record<string, unknown>;
+
+    switch (op.type) {
+        case 'removeBackground':
+            return { type: 'removeBackground' };
+
+        case 'flip':
+            return { type: 'flip', direction: enumField(op, 'direction', path, FLIP_DIRECTIONS, 'horizontal') };
+
+        case 'rotate': {
+            if (typeof op.angle !== 'number' || !Number.isFinite(op.angle)) {
+                throw new ValidationError(`${path}.angle must be a number`);
+            }
+            return { type: 'rotate', angle: op.angle };
+        }
+
+        case 'resize': {
+            const width = integerField(op, 'width', path, { min: 1, max: MAX_DIMENSION, optional: true });
+            const height = integerField(op, 'height', path, { min: 1, max: MAX_DIMENSION, optional: true });
+            if (width === undefined && height === undefined) {
+                throw new ValidationError(`${path} needs a width, a height or both`);
+            }
+            return { type: 'resize', width, height, fit: enumField(op, 'fit', path, RESIZE_FITS, 'inside') };
+        }
+
+        case 'crop':
+            return {
+                type: 'crop',
+                left: integerField(op, 'left', path, { min: 0, max: MAX_DIMENSION })!,
+                top: integerField(op, 'top', path, { min: 0, max: MAX_DIMENSION })!,
+                width: integerField(op, 'width', path, { min: 1, max: MAX_DIMENSION })!,
+                height: integerField(op, 'height', path, { min: 1, max: MAX_DIMENSION })!,
+            };
+
+        case 'pad': {
+            const all = integerField(op, 'all', path, { min: 0, max: MAX_DIMENSION, optional: true }) ?? 0;
+            const side = (field: string) =>
+                integerField(op, field, path, { min: 0, max: MAX_DIMENSION, optional: true }) ?? all;
+            return {
+                type: 'pad',
+                top: side('top'),
+                right: side('right'),
+                bottom: side('bottom'),
+                left: side('left'),
+                color: colorField(op, 'color', path, '#00000000'),
+            };
+        }
+
+        case 'refineMask': {
+            if (op.decontaminate !== undefined && typeof op.decontaminate !== 'boolean') {
+                throw new ValidationError(`${path}.decontaminate must be true or false`);
+            }
+            return {
+                type: 'refineMask',
+                threshold: integerField(op, 'threshold', path, { min: 1, max: 255, optional: true }),
+                shift: integerField(op, 'shift', path, { min: -MAX_MASK_SHIFT, max: MAX_MASK_SHIFT, optional: true }) ?? 0,
+                feather: integerField(op, 'feather', path, { min: 0, max: MAX_FEATHER, optional: true }) ?? 0,
+                decontaminate: op.decontaminate === true,
+            };
+        }
+
+        case 'autoCrop': {
+            const width = integerField(op, 'width', path, { min: 1, max: MAX_DIMENSION, optional: true });
+            const height = integerField(op, 'height', path, { min: 1, max: MAX_DIMENSION, optional: true });
+            if ((width === undefined) !== (height === undefined)) {
+                throw new ValidationError(`${path} needs both a width and a height, or neither`);
+            }
+            if (width !== undefined && op.aspectRatio !== undefined) {
+                throw new ValidationError(`${path} takes either an aspectRatio or a width and height, not both`);
+            }
+            return {
+                type: 'autoCrop',
+                padding: integerField(op, 'padding', path, { min: 0, max: MAX_DIMENSION, optional: true }) ?? 0,
+                alphaThreshold: integerField(op, 'alphaThreshold', path, { min: 0, max: 254, optional: true }) ?? 0,
+                aspectRatio: aspectRatioField(op, 'aspectRatio', path),
+                width,
+                height,
+            };
+        }
+
+        case 'dropShadow':
+            return {
+                type: 'dropShadow',
+                offsetX: integerField(op, 'offsetX', path, { min: -MAX_EFFECT_SIZE, max: MAX_EFFECT_SIZE, optional: true }) ?? 10,
+                offsetY: integerField(op, 'offsetY', path, { min: -MAX_EFFECT_SIZE, max: MAX_EFFECT_SIZE, optional: true }) ?? 10,
+                blur: integerField(op, 'blur', path, { min: 0, max: MAX_EFFECT_SIZE, optional: true }) ?? 10,
+                opacity: opacityField(op, 'opacity', path, 0.5),
+                color: colorField(op, 'color', path, '#000000'),
+            };
+
+        case 'contactShadow': {
+            const spread = op.spread ?? 1;
+            if (typeof spread !== 'number' || !(spread >= 0.1 && spread <= 3)) {
+                throw new ValidationError(`${path}.spread must be a number between 0.1 and 3`);
+            }
+            return {
+                type: 'contactShadow',
+                spread,
+                blur: integerField(op, 'blur', path, { min: 0, max: MAX_EFFECT_SIZE, optional: true }) ?? 8,
+                opacity: opacityField(op, 'opacity', path, 0.4),
+                color: colorField(op, 'color', path, '#000000'),
+            };
+        }
+
+        case 'outline':
+            return {
+                type: 'outline',
+                width: integerField(op, 'width', path, { min: 1, max: MAX_EFFECT_SIZE, optional: true }) ?? 10,
+                color: colorField(op, 'color', path, '#ffffff'),
+            };
+
+        case 'background':
+            return { type: 'background', ...parseBackgroundFillFields(op, path) };
+
+        default:
+            throw new ValidationError(
+                `${path}.type must be one of: removeBackground, flip, rotate, resize, crop, pad, refineMask, autoCrop, ` +
+                'dropShadow, contactShadow, outline, background'
+            );
+    }
+}
+
+// Parse the `format`, `quality` and `flattenColor` request fields. Fields that
+// are not sent fall back to `defaults`.
+export function parseOutputOptions(body: Record<string, unknown>, defaults: OutputOptions = DEFAULT_OUTPUT): OutputOptions {
+    const fields = {
+        format: body.format || undefined,
+        quality: body.quality === undefined || body.quality === '' ? undefined : Number(body.quality),
+        flattenColor: body.flattenColor || undefined,
+    };
 
+    return {
+        format: enumField(fields, 'format', '', Object.keys(OUTPUT_FORMATS) as OutputFormat[], defaults.format),
+        quality: integerField(fields, 'quality', '', { min: 1, max: 100, optional: true }) ?? defaults.quality,
+        flattenColor: colorField(fields, 'flattenColor', '', defaults.flattenColor),
+    };
+}
+
+// Parse the `operations` request field (a JSON array, or its string form when
+// sent as multipart form data). Missing means the default pipeline.
+export function parseOperations(raw: unknown): PipelineOperation[] {
+    if (raw === undefined || raw === null || raw === '') {
+        return DEFAULT_OPERATIONS;
+    }
+
+    let value = raw;
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value);
+        } catch {
+            throw new ValidationError('operations must be valid JSON');
+        }
+    }
+
+    if (!Array.isArray(value)) {
+        throw new ValidationError('operations must be an array');
+    }
+    if (value.length > MAX_OPERATIONS) {
+        throw new ValidationError(`operations may contain at most ${MAX_OPERATIONS} steps`);
+    }
+
+    return value.map(parseOperation);
+}
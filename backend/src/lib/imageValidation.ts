@@ -0,0 +1,119 @@
+import sharp from 'sharp';
+import { PayloadTooLargeError, UnsupportedMediaTypeError } from './errors.js';
+
+const MAX_IMAGE_DIMENSION = Number(process.env.MAX_IMAGE_DIMENSION) || 10000;
+export const MAX_IMAGE_MEGAPIXELS = Number(process.env.MAX_IMAGE_MEGAPIXELS) || 50;
+export const MAX_PIXELS = Math.round(MAX_IMAGE_MEGAPIXELS * 1000000);
+
+// Formats accepted as input, named as sharp reports them
+export type InputFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'tiff' | 'heif';
+
+const INPUT_CONTENT_TYPES: Record<InputFormat, string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    tiff: 'image/tiff',
+    heif: 'image/avif',
+};
+
+// Re-encoding settings when metadata has to be stripped from an original
+const REWRITE_OPTIONS: Record<InputFormat, { format: keyof sharp.FormatEnum; options?: object }> = {
+    jpeg: { format: 'jpeg', options: { quality: 95 } },
+    png: { format: 'png' },
+    webp: { format: 'webp', options: { quality: 95 } },
+    gif: { format: 'gif' },
+    tiff: { format: 'tiff' },
+    heif: { format: 'avif', options: { quality: 80 } },
+};
+
+export interface ImageInspection {
+    format: InputFormat;
+    contentType: string;
+    width: number; // As displayed, after EXIF orientation
+    height: number;
+}
+
+export interface SanitizedImage extends ImageInspection {
+    buffer: Buffer;
+}
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+    return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+    return buffer.subarray(start, end).toString('latin1');
+}
+
+// Identify an image from its first bytes, ignoring whatever the client
+// claimed the file was
+function sniffImageFormat(buffer: Buffer): InputFormat | null {
+    if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+    if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+    if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') return 'gif';
+    if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') return 'webp';
+    if (ascii(buffer, 0, 4) === 'II*\0' || ascii(buffer, 0, 4) === 'MM\0*') return 'tiff';
+    if (ascii(buffer, 4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(buffer, 8, 12))) return 'heif';
+    return null;
+}
+
+// Check an upload is an allowed format within the size limits, reading only
+// its header so oversized images are refused before they are decoded
+async function inspectImage(buffer: Buffer, label = 'Image'): Promise<ImageInspection & { metadata: sharp.Metadata }> {
+    const format = sniffImageFormat(buffer);
+    if (!format) {
+        throw new UnsupportedMediaTypeError(`${label} must be a JPEG, PNG, WebP, GIF, TIFF or AVIF image`);
+    }
+
+    let metadata: sharp.Metadata;
+    try {
+        metadata = await sharp(buffer).metadata();
+    } catch {
+        throw new UnsupportedMediaTypeError(`${label} could not be read as ${format.toUpperCase()}`);
+    }
+    if (metadata.format !== format || !metadata.width || !metadata.height) {
+        throw new UnsupportedMediaTypeError(`${label} could not be read as ${format.toUpperCase()}`);
+    }
+
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const width = rotated ? metadata.height : metadata.width;
+    const height = rotated ? metadata.width : metadata.height;
+    if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
+        throw new PayloadTooLargeError(
+            `${label} is ${width}x${height} pixels; at most ${MAX_IMAGE_DIMENSION} pixels per side are allowed`
+        );
+    }
+    if (width * height > MAX_PIXELS) {
+        throw new PayloadTooLargeError(
+            `${label} has ${(width * height / 1000000).toFixed(1)} megapixels; at most ${MAX_IMAGE_MEGAPIXELS} are allowed`
+        );
+    }
+
+    return { format, contentType: INPUT_CONTENT_TYPES[format], width, height, metadata };
+}
+
+// Validate an upload, turn it upright according to its EXIF orientation and
+// strip EXIF, GPS, XMP, IPTC and comments. The ICC colour profile is dropped
+// too (colours are converted to sRGB) unless `keepColorProfile` is set. Clean
+// images are returned as they are, without re-encoding.
+export async function sanitizeImage(
+    buffer: Buffer,
+    { keepColorProfile = false, label }: { keepColorProfile?: boolean; label?: string } = {}
+): Promise<SanitizedImage> {
+    const { metadata, ...inspection } = await inspectImage(buffer, label);
+
+    const hasMetadata = !!(metadata.exif || metadata.xmp || metadata.iptc || metadata.comments?.length);
+    const needsRewrite = (metadata.orientation ?? 1) > 1 || hasMetadata || (metadata.icc && !keepColorProfile);
+    if (!needsRewrite) {
+        return { ...inspection, buffer };
+    }
+
+    const { format, options } = REWRITE_OPTIONS[inspection.format];
+    let image = sharp(buffer, { limitInputPixels: MAX_PIXELS }).rotate();
+    if (keepColorProfile && metadata.icc) {
+        image = image.keepIccProfile();
+    }
+
+    return { ...inspection, buffer: await image.toFormat(format, options).toBuffer() };
+}
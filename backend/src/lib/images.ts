@@ -0,0 +1,274 @@
+import { validate as isUuid } from 'uuid';
+import { fileExists, readImage, uploadImage, deleteImage, listFiles } from './storage.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { GoneError, ValidationError } from './errors.js';
+import {
+    OUTPUT_FORMATS,
+    type OutputFormat,
+    type OutputOptions,
+    type PipelineOperation,
+} from './imageProcessor.js';
+import { deleteCacheEntry } from './resultCache.js';
+import { logger } from './logger.js';
+import type { StoredOriginal, StoredProcessed } from './apiTypes.js';
+
+// Storage layout for images and their artifacts:
+//   originals/<id>.<ext>   the upload as received
+//   processed/<id>.<ext>   the pipeline result in the chosen output format
+//   cutouts/<id>.png       transparent result kept for background changes
+//   masks/<id>.png         alpha mask from background removal, reused on reprocess
+//   thumbnails/<id>.webp   small preview of the processed image for listings
+//   meta/<id>.json         sidecar record tying the above together
+//   expired/<id>.json      tombstone left when an image expires
+// Result cache entries the image was made from (`cacheKeys`) are deleted with it.
+
+export interface ImageRecord {
+    imageId: string;
+    createdAt: string;
+    updatedAt: string;
+    original: StoredOriginal;
+    processed: StoredProcessed;
+    operations: PipelineOperation[];
+    output: OutputOptions;
+    cutoutFileName: string | null;
+    maskFileName?: string | null; // Missing on records saved before masks were kept
+    expiresAt?: string; // Missing on records saved before retention existed
+    ownerKeyId?: string | null; // API key that uploaded the image
+    cacheKeys?: string[]; // Result cache entries read or written for the image
+}
+
+// How long images are kept, in hours. Uploads may ask for any period up to the maximum.
+export const DEFAULT_RETENTION_HOURS = Number(process.env.IMAGE_RETENTION_HOURS) || 24;
+export const MAX_RETENTION_HOURS = Number(process.env.MAX_IMAGE_RETENTION_HOURS) || 24 * 30;
+
+// Image ids end up in storage keys, so anything but a UUID is treated as unknown
+export function isImageId(imageId: string): boolean {
+    return isUuid(imageId);
+}
+
+// Whether the API key `ownerKeyId` may use an image. A null key means API
+// keys aren't in use, and every image is accessible.
+export function isOwnedBy(record: ImageRecord | null, ownerKeyId: string | null): boolean {
+    return ownerKeyId === null || (record?.ownerKeyId ?? null) === ownerKeyId;
+}
+
+export function originalFileName(imageId: string, extension: string): string {
+    return `originals/${imageId}.${extension}`;
+}
+
+export function processedFileName(imageId: string, format: OutputFormat): string {
+    return `processed/${imageId}.${OUTPUT_FORMATS[format].extension}`;
+}
+
+// Transparent PNG kept for later background changes
+export function cutoutFileName(imageId: string): string {
+    return `cutouts/${imageId}.png`;
+}
+
+export function thumbnailFileName(imageId: string): string {
+    return `thumbnails/${imageId}.webp`;
+}
+
+// Grayscale alpha mask produced by background removal
+export function maskFileName(imageId: string): string {
+    return `masks/${imageId}.png`;
+}
+
+// Name for a downloaded result: the upload's name with -processed added
+export function processedDownloadName(imageId: string, extension: string, originalName?: string): string {
+    if (!originalName) return `processed-${imageId}.${extension}`;
+
+    const baseName = originalName.replace(/\.[^/.]+$/, '');
+    return `${baseName}-processed.${extension}`;
+}
+
+// Name for a downloaded mask: the upload's name with -mask added
+export function maskDownloadName(imageId: string, originalName?: string): string {
+    if (!originalName) return `mask-${imageId}.png`;
+
+    const baseName = originalName.replace(/\.[^/.]+$/, '');
+    return `${baseName}-mask.png`;
+}
+
+// Content-Disposition value for a download name. Names come from uploads and
+// URL paths, so they may hold quotes or characters a header can't carry: the
+// plain `filename` gets an ASCII-only copy and `filename*` the full name.
+export function contentDisposition(type: 'attachment' | 'inline', downloadName: string): string {
+    const ascii = downloadName.replace(/["\\\u0000-\u001f\u007f-\uffff]/g, '').trim();
+    const fallback = /^[a-z0-9]/i.test(ascii) ? ascii : `download${ascii}`; // "写真.png" leaves ".png"
+    const encoded = encodeURIComponent(downloadName).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+function recordFileName(imageId: string): string {
+    return `meta/${imageId}.json`;
+}
+
+function tombstoneFileName(imageId: string): string {
+    return `expired/${imageId}.json`;
+}
+
+// Expiry time for an image kept `hours` from `from`
+export function expiryFrom(hours: number = DEFAULT_RETENTION_HOURS, from: number = Date.now()): string {
+    return new Date(from + hours * 60 * 60 * 1000).toISOString();
+}
+
+// Records saved before retention existed expire the default period after creation
+export function recordExpiresAt(record: ImageRecord): string {
+    return record.expiresAt ?? expiryFrom(DEFAULT_RETENTION_HOURS, new Date(record.createdAt).getTime());
+}
+
+export function isExpired(record: ImageRecord): boolean {
+    return new Date(recordExpiresAt(record)).getTime() <= Date.now();
+}
+
+export async function saveImageRecord(record: ImageRecord): Promise<void> {
+    await uploadImage(Buffer.from(JSON.stringify(record)), recordFileName(record.imageId), 'application/json');
+}
+
+// Load an image's record. Throws GoneError for expired images, deleting them
+// on the spot if the sweeper hasn't got to them yet.
+export async function getImageRecord(imageId: string): Promise<ImageRecord | null> {
+    if (!isImageId(imageId)) return null;
+
+    const fileName = recordFileName(imageId);
+    if (!(await fileExists(fileName))) {
+        if (await fileExists(tombstoneFileName(imageId))) {
+            throw new GoneError('Image has expired');
+        }
+        return null;
+    }
+
+    const record = JSON.parse((await readImage(fileName)).toString('utf8')) as ImageRecord;
+    if (isExpired(record)) {
+        await expireImage(record);
+        throw new GoneError('Image has expired');
+    }
+
+    return record;
+}
+
+// Delete an expired image, leaving a tombstone so its id answers 410 Gone
+export async function expireImage(record: ImageRecord): Promise<void> {
+    const tombstone = { imageId: record.imageId, expiresAt: recordExpiresAt(record), deletedAt: new Date().toISOString() };
+    await uploadImage(Buffer.from(JSON.stringify(tombstone)), tombstoneFileName(record.imageId), 'application/json');
+    await deleteImageFiles(record.imageId, record);
+}
+
+// Delete every stored artifact of an image, including its record
+export async function deleteImageFiles(imageId: string, record: ImageRecord | null): Promise<void> {
+    const fileNames = new Set([
+        cutoutFileName(imageId),
+        maskFileName(imageId),
+        thumbnailFileName(imageId),
+        recordFileName(imageId),
+    ]);
+    if (record) {
+        fileNames.add(record.original.fileName);
+        fileNames.add(record.processed.fileName);
+    } else {
+        const processed = await findProcessedImage(imageId);
+        if (processed) fileNames.add(processed.fileName);
+    }
+
+    await Promise.all([
+        ...[...fileNames].map((fileName) => deleteImage(fileName)),
+        ...(record?.cacheKeys ?? []).map((cacheKey) => deleteCacheEntry(cacheKey)),
+    ]);
+}
+
+// Locate the processed image for an id, whichever format it was saved in.
+// Images stored before sidecar records existed are found by probing.
+export async function findProcessedImage(
+    imageId: string
+): Promise<{ fileName: string; format: OutputFormat } | null> {
+    if (!isImageId(imageId)) return null;
+
+    const record = await getImageRecord(imageId);
+    if (record) {
+        return { fileName: record.processed.fileName, format: record.processed.format };
+    }
+
+    const formats = Object.keys(OUTPUT_FORMATS) as OutputFormat[];
+    const found = await Promise.all(formats.map((format) => fileExists(processedFileName(imageId, format))));
+    const index = found.indexOf(true);
+
+    return index === -1 ? null : { fileName: processedFileName(imageId, formats[index]), format: formats[index] };
+}
+
+const LIST_CONCURRENCY = 5;
+
+// Ids of every image with a record, expired or not
+export async function listImageIds(): Promise<string[]> {
+    return (await listFiles('meta/'))
+        .map((fileName) => fileName.replace(/^meta\//, '').replace(/\.json$/, ''))
+        .filter(isImageId);
+}
+
+export interface ImagePage {
+    records: ImageRecord[];
+    total: number;
+    nextCursor: string | null;
+}
+
+// Where a page starts: just after the image the previous page ended with
+interface ListCursor {
+    createdAt: string;
+    imageId: string;
+}
+
+function encodeCursor(record: ImageRecord): string {
+    const cursor: ListCursor = { createdAt: record.createdAt, imageId: record.imageId };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(raw: string): ListCursor {
+    try {
+        const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')) as ListCursor;
+        if (typeof cursor.createdAt === 'string' && typeof cursor.imageId === 'string') return cursor;
+    } catch {
+        // Reported below
+    }
+    throw new ValidationError('cursor is not valid');
+}
+
+// Newest first, with the id breaking ties so pages never overlap
+function compareNewestFirst(a: ListCursor, b: ListCursor): number {
+    return b.createdAt.localeCompare(a.createdAt) || b.imageId.localeCompare(a.imageId);
+}
+
+// A page of the images an API key (null for all) can use, newest first.
+// Every record is read to sort them, so this is meant for the modest number
+// of images retention leaves around. Expired images are skipped and left to
+// the sweeper.
+export async function listImages(
+    ownerKeyId: string | null,
+    { limit, cursor }: { limit: number; cursor?: string }
+): Promise<ImagePage> {
+    const after = cursor ? decodeCursor(cursor) : null;
+    const imageIds = await listImageIds();
+
+    const loaded = await mapWithConcurrency(imageIds, LIST_CONCURRENCY, async (imageId) => {
+        try {
+            return JSON.parse((await readImage(recordFileName(imageId))).toString('utf8')) as ImageRecord;
+        } catch (error) {
+            // Deleted since it was listed, or unreadable
+            logger.error('List error', { imageId, error });
+            return null;
+        }
+    });
+
+    const records = loaded
+        .filter((record): record is ImageRecord => record !== null && !isExpired(record) && isOwnedBy(record, ownerKeyId))
+        .sort(compareNewestFirst);
+
+    const start = after ? records.findIndex((record) => compareNewestFirst(after, record) < 0) : 0;
+    const page = start === -1 ? [] : records.slice(start, start + limit);
+    const hasMore = start !== -1 && start + limit < records.length;
+
+    return {
+        records: page,
+        total: records.length,
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    };
+}
@@ -0,0 +1,153 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { processImage } from './processing.js';
+import { withCallback } from './webhooks.js';
+import type { ProcessingRequest } from './uploads.js';
+import { countError, errorBody } from './errors.js';
+import { logger } from './logger.js';
+import type { JobSnapshot, JobStage } from './apiTypes.js';
+
+export type { JobSnapshot, JobStage } from './apiTypes.js';
+
+// In-memory processing jobs. Jobs live in this process only, so the job API
+// needs a long-running server rather than short-lived serverless instances.
+
+interface Job {
+    snapshot: JobSnapshot;
+    ownerKeyId: string | null;
+    request: ProcessingRequest | null;
+    controller: AbortController;
+    events: EventEmitter;
+}
+
+const MAX_CONCURRENT_JOBS = Number(process.env.MAX_CONCURRENT_JOBS) || 2;
+const JOB_RETENTION_MS = 60 * 60 * 1000; // Forget finished jobs after an hour
+
+const jobs = new Map<string, Job>();
+const queue: Job[] = [];
+let running = 0;
+
+export function isFinished(stage: JobStage): boolean {
+    return stage === 'done' || stage === 'failed' || stage === 'cancelled';
+}
+
+function update(job: Job, changes: Partial<JobSnapshot>): void {
+    if (changes.stage === job.snapshot.stage && Object.keys(changes).length === 1) return;
+
+    job.snapshot = { ...job.snapshot, ...changes, updatedAt: new Date().toISOString() };
+    job.events.emit('update', job.snapshot);
+
+    if (isFinished(job.snapshot.stage)) {
+        // Drop the image buffers now; keep the snapshot around for polling
+        job.request = null;
+        setTimeout(() => jobs.delete(job.snapshot.jobId), JOB_RETENTION_MS).unref();
+    }
+}
+
+async function run(job: Job): Promise<void> {
+    running++;
+    try {
+        const request = job.request!;
+        const result = await withCallback(
+            {
+                url: request.callbackUrl,
+                ownerKeyId: job.ownerKeyId,
+                originalName: request.originalName,
+                jobId: job.snapshot.jobId,
+            },
+            (hooks) => processImage(request, hooks),
+            { signal: job.controller.signal, onStage: (stage) => update(job, { stage }) }
+        );
+        update(job, { stage: 'done', result });
+    } catch (error) {
+        if (job.controller.signal.aborted) {
+            update(job, { stage: 'cancelled' });
+        } else {
+            logger.error('Job error', { jobId: job.snapshot.jobId, error });
+            countError(error);
+            const body = errorBody(error, 'Failed to process image');
+            update(job, {
+                stage: 'failed',
+                error: body.error,
+                errorCode: body.code,
+                retryAfter: body.retryAfter ?? null,
+            });
+        }
+    } finally {
+        running--;
+        startNext();
+    }
+}
+
+function startNext(): void {
+    while (running < MAX_CONCURRENT_JOBS && queue.length > 0) {
+        void run(queue.shift()!);
+    }
+}
+
+// Queue an upload for processing and return its initial snapshot
+export function createJob(request: ProcessingRequest): JobSnapshot {
+    const now = new Date().toISOString();
+    const job: Job = {
+        snapshot: {
+            jobId: uuidv4(),
+            stage: 'queued',
+            createdAt: now,
+            updatedAt: now,
+            result: null,
+            error: null,
+            errorCode: null,
+            retryAfter: null,
+        },
+        ownerKeyId: request.ownerKeyId ?? null,
+        request,
+        controller: new AbortController(),
+        events: new EventEmitter(),
+    };
+
+    // Snapshots are replaced, not mutated, so this stays "queued" even if the
+    // job starts right away
+    const snapshot = job.snapshot;
+    jobs.set(snapshot.jobId, job);
+    queue.push(job);
+    startNext();
+
+    return snapshot;
+}
+
+// A job, if it exists and belongs to the API key (null when keys aren't in use)
+function findJob(jobId: string, ownerKeyId: string | null): Job | null {
+    const job = jobs.get(jobId);
+    return job && (ownerKeyId === null || job.ownerKeyId === ownerKeyId) ? job : null;
+}
+
+export function getJob(jobId: string, ownerKeyId: string | null): JobSnapshot | null {
+    return findJob(jobId, ownerKeyId)?.snapshot ?? null;
+}
+
+// Cancel a queued or running job. Returns the updated snapshot, or null if unknown.
+export function cancelJob(jobId: string, ownerKeyId: string | null): JobSnapshot | null {
+    const job = findJob(jobId, ownerKeyId);
+    if (!job) return null;
+
+    if (!isFinished(job.snapshot.stage)) {
+        job.controller.abort();
+
+        const queued = queue.indexOf(job);
+        if (queued !== -1) {
+            queue.splice(queued, 1);
+            update(job, { stage: 'cancelled' });
+        }
+    }
+
+    return job.snapshot;
+}
+
+// Listen for snapshot changes. Returns an unsubscribe function.
+export function subscribeToJob(jobId: string, listener: (snapshot: JobSnapshot) => void): () => void {
+    const job = jobs.get(jobId);
+    if (!job) return () => {};
+
+    job.events.on('update', listener);
+    return () => job.events.off('update', listener);
+}
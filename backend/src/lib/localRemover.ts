@@ -0,0 +1,127 @@
+import sharp from 'sharp';
+import type { BackgroundRemovalProvider } from './backgroundRemover.js';
+
+// Offline background removal: flood-fills from the image border, clearing every
+// connected pixel that is close to the dominant border colour. Works well for
+// product shots and screenshots on a plain backdrop, and needs no network.
+
+const DEFAULT_TOLERANCE = 40;
+
+function getTolerance(): number {
+    const value = Number(process.env.LOCAL_REMOVER_TOLERANCE);
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_TOLERANCE;
+}
+
+// Most common border colour, bucketed to 4 bits per channel so that noise and
+// JPEG artifacts still land in the same bucket
+function dominantBorderColor(data: Buffer, width: number, height: number): [number, number, number] {
+    const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+
+    const sample = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+        const bucket = buckets.get(key);
+        if (bucket) {
+            bucket.count++;
+            bucket.r += r;
+            bucket.g += g;
+            bucket.b += b;
+        } else {
+            buckets.set(key, { count: 1, r, g, b });
+        }
+    };
+
+    for (let x = 0; x < width; x++) {
+        sample(x, 0);
+        sample(x, height - 1);
+    }
+    for (let y = 1; y < height - 1; y++) {
+        sample(0, y);
+        sample(width - 1, y);
+    }
+
+    let best = { count: 0, r: 0, g: 0, b: 0 };
+    for (const bucket of buckets.values()) {
+        if (bucket.count > best.count) best = bucket;
+    }
+
+    return [best.r / best.count, best.g / best.count, best.b / best.count];
+}
+
+export async function removeBackgroundLocally(imageBuffer: Buffer): Promise<Buffer> {
+    const { data, info } = await sharp(imageBuffer)
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    const { width, height } = info;
+    const tolerance = getTolerance();
+    const [br, bg, bb] = dominantBorderColor(data, width, height);
+
+    const distance = (pixel: number) => {
+        const i = pixel * 4;
+        const dr = data[i] - br, dg = data[i + 1] - bg, db = data[i + 2] - bb;
+        return Math.sqrt(dr * dr + dg * dg + db * db);
+    };
+
+    // Breadth-first flood fill seeded from every matching border pixel
+    const removed = new Uint8Array(width * height);
+    const queue = new Uint32Array(width * height);
+    let head = 0, tail = 0;
+
+    const visit = (pixel: number) => {
+        if (removed[pixel] || distance(pixel) > tolerance) return;
+        removed[pixel] = 1;
+        queue[tail++] = pixel;
+    };
+
+    for (let x = 0; x < width; x++) {
+        visit(x);
+        visit((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+        visit(y * width);
+        visit(y * width + width - 1);
+    }
+
+    while (head < tail) {
+        const pixel = queue[head++];
+        const x = pixel % width;
+        if (x > 0) visit(pixel - 1);
+        if (x < width - 1) visit(pixel + 1);
+        if (pixel >= width) visit(pixel - width);
+        if (pixel < width * (height - 1)) visit(pixel + width);
+    }
+
+    // Clear the background, and soften subject pixels that touch it so edges
+    // don't keep a hard halo of the old backdrop
+    for (let pixel = 0; pixel < width * height; pixel++) {
+        const alphaIndex = pixel * 4 + 3;
+        if (removed[pixel]) {
+            data[alphaIndex] = 0;
+            continue;
+        }
+
+        const x = pixel % width;
+        const touchesBackground =
+            (x > 0 && removed[pixel - 1]) ||
+            (x < width - 1 && removed[pixel + 1]) ||
+            (pixel >= width && removed[pixel - width]) ||
+            (pixel < width * (height - 1) && removed[pixel + width]);
+
+        if (touchesBackground) {
+            const weight = Math.min(1, distance(pixel) / (tolerance * 2));
+            data[alphaIndex] = Math.round(data[alphaIndex] * weight);
+        }
+    }
+
+    return sharp(data, { raw: { width, height, channels: 4 } })
+        .png()
+        .toBuffer();
+}
+
+export const localProvider: BackgroundRemovalProvider = {
+    name: 'local',
+    removeBackground: removeBackgroundLocally,
+};
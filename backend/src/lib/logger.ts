@@ -0,0 +1,66 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { HttpError } from './errors.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields added to every log line written while handling a request (or a job
+// it started), such as its request id
+const context = new AsyncLocalStorage<LogFields>();
+
+function minimumLevel(): number {
+    const name = (process.env.LOG_LEVEL || 'info').trim().toLowerCase() as LogLevel;
+    return LEVELS[name] ?? LEVELS.info;
+}
+
+// Errors as plain JSON; stacks are only worth logging for unexpected errors
+function serializeError(error: unknown): unknown {
+    if (!(error instanceof Error)) return error;
+
+    const serialized: LogFields = { name: error.name, message: error.message };
+    if (error instanceof HttpError) {
+        serialized.status = error.status;
+        serialized.code = error.code;
+    }
+    if (!(error instanceof HttpError) || error.status >= 500) {
+        serialized.stack = error.stack;
+    }
+    return serialized;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < minimumLevel()) return;
+
+    const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...context.getStore() };
+    for (const [key, value] of Object.entries(fields)) {
+        entry[key] = key === 'error' ? serializeError(value) : value;
+    }
+
+    const line = JSON.stringify(entry);
+    if (level === 'error' || level === 'warn') {
+        process.stderr.write(line + '\n');
+    } else {
+        process.stdout.write(line + '\n');
+    }
+}
+
+// One JSON object per line, tagged with the current request's fields
+export const logger = {
+    debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+    info: (message: string, fields?: LogFields) => write('info', message, fields),
+    warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+    error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
+
+// Run `fn` with extra fields on every log line it writes, including from
+// promises and timers it starts
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+    return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+// The current context's fields, e.g. to read the request id
+export function logContext(): LogFields {
+    return context.getStore() ?? {};
+}
@@ -0,0 +1,21 @@
+import type { ApiKeyRecord, ApiKeyStore } from './apiKeys.js';
+
+// API keys held in memory, seeded from API_KEYS_JSON (the contents of a keys
+// file). For read-only or serverless deployments: issue keys locally with the
+// admin command, then copy the file into the environment variable.
+
+let records: ApiKeyRecord[] | null = null;
+
+function getRecords(): ApiKeyRecord[] {
+    records ??= process.env.API_KEYS_JSON ? (JSON.parse(process.env.API_KEYS_JSON) as ApiKeyRecord[]) : [];
+    return records;
+}
+
+export const memoryKeyStore: ApiKeyStore = {
+    name: 'memory',
+    list: async () => getRecords(),
+    findByHash: async (hash) => getRecords().find((record) => record.hash === hash) ?? null,
+    save: async (record) => {
+        records = [...getRecords().filter((existing) => existing.id !== record.id), record];
+    },
+};
@@ -0,0 +1,118 @@
+// A small in-process metrics registry, rendered in the Prometheus text
+// exposition format by GET /api/metrics. Counts are per server process.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Series are keyed by their labels in a stable order
+function seriesKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export class Counter {
+    private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(private readonly name: string, private readonly help: string) {
+        registry.push(this);
+    }
+
+    inc(labels: Labels = {}, amount = 1): void {
+        const key = seriesKey(labels);
+        const entry = this.series.get(key) ?? { labels, value: 0 };
+        entry.value += amount;
+        this.series.set(key, entry);
+    }
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} counter`,
+            ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+        ];
+    }
+}
+
+export class Histogram {
+    private readonly series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+    constructor(private readonly name: string, private readonly help: string, private readonly bounds: number[]) {
+        registry.push(this);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = seriesKey(labels);
+        const entry = this.series.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+        this.bounds.forEach((bound, i) => {
+            if (value <= bound) entry.buckets[i]++;
+        });
+        entry.sum += value;
+        entry.count++;
+        this.series.set(key, entry);
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const { labels, buckets, sum, count } of this.series.values()) {
+            this.bounds.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export const httpRequests = new Counter(
+    'http_requests_total',
+    'HTTP requests by method, route and status'
+);
+
+export const httpRequestDuration = new Histogram(
+    'http_request_duration_seconds',
+    'HTTP request latency by method and route',
+    DURATION_BUCKETS
+);
+
+export const errors = new Counter(
+    'errors_total',
+    'Errors returned to clients or failing jobs, by error code'
+);
+
+export const processingStageDuration = new Histogram(
+    'processing_stage_duration_seconds',
+    'Time spent in each image processing stage',
+    DURATION_BUCKETS
+);
+
+export const clipdropRequests = new Counter(
+    'clipdrop_requests_total',
+    'Calls to the Clipdrop API by outcome'
+);
+
+export const webhookDeliveries = new Counter(
+    'webhook_delivery_attempts_total',
+    'Webhook delivery attempts by outcome'
+);
+
+// Every registered metric in the Prometheus text format
+export function renderMetrics(): string {
+    return registry.flatMap((metric) => metric.render()).join('\n') + '\n';
+}
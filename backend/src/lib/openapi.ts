@@ -0,0 +1,423 @@
+import { z } from 'zod';
+import {
+    backgroundFieldsSchema,
+    backgroundResponseSchema,
+    batchManifestSchema,
+    createdBatchSchema,
+    createdJobSchema,
+    deleteQuerySchema,
+    deleteResponseSchema,
+    downloadQuerySchema,
+    healthErrorResponseSchema,
+    healthResponseSchema,
+    imageDetailsSchema,
+    imageListSchema,
+    jobSnapshotSchema,
+    listImagesQuerySchema,
+    listWebhookDeliveriesQuerySchema,
+    maskQuerySchema,
+    processingFieldsSchema,
+    processingResponseSchema,
+    processingSettingsSchema,
+    shareLinkRequestSchema,
+    shareLinkSchema,
+    sweepResultSchema,
+    webhookDeliveryListSchema,
+    webhookDeliverySchema,
+    webhookPayloadSchema,
+} from './apiSchemas.js';
+
+// The OpenAPI 3.1 document served at /api/openapi.json, built from the route
+// table below and the schemas in apiSchemas.ts
+
+type Method = 'get' | 'post' | 'put' | 'delete';
+
+interface RouteResponse {
+    description: string;
+    schema?: z.ZodType;
+    contentType?: string; // Defaults to JSON; binary bodies have no schema
+}
+
+interface RouteSpec {
+    method: Method;
+    path: string; // Path parameters in braces, e.g. /api/images/{id}
+    tag: string;
+    summary: string;
+    security?: 'apiKey' | 'stream' | 'secret' | 'none';
+    query?: z.ZodObject;
+    body?: { schema: z.ZodObject; files?: string[]; json?: boolean };
+    responses: Record<number, RouteResponse>;
+}
+
+const IMAGE_FILES = ['image', 'backgroundImage'];
+
+const routes: RouteSpec[] = [
+    {
+        method: 'post',
+        path: '/api/upload',
+        tag: 'Images',
+        summary: 'Process an image, sent as a file or a url to import it from',
+        body: { schema: processingFieldsSchema, files: IMAGE_FILES },
+        responses: { 200: { description: 'The processed image', schema: processingResponseSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/images',
+        tag: 'Images',
+        summary: 'List processed images, newest first',
+        query: listImagesQuerySchema,
+        responses: { 200: { description: 'One page of images', schema: imageListSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/images/{id}',
+        tag: 'Images',
+        summary: 'Image URLs and metadata',
+        responses: { 200: { description: 'The image', schema: imageDetailsSchema } },
+    },
+    {
+        method: 'post',
+        path: '/api/images/{id}/reprocess',
+        tag: 'Images',
+        summary: 'Run different settings on the stored original',
+        body: { schema: processingSettingsSchema, files: ['backgroundImage'] },
+        responses: { 200: { description: 'The reprocessed image', schema: processingResponseSchema } },
+    },
+    {
+        method: 'post',
+        path: '/api/images/{id}/background',
+        tag: 'Images',
+        summary: 'Replace the background of a processed image',
+        body: { schema: backgroundFieldsSchema, files: ['backgroundImage'] },
+        responses: { 200: { description: 'The new background', schema: backgroundResponseSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/images/{id}/mask',
+        tag: 'Images',
+        summary: 'Download the alpha mask as a grayscale PNG',
+        query: maskQuerySchema,
+        responses: { 200: { description: 'The mask', contentType: 'image/png' } },
+    },
+    {
+        method: 'put',
+        path: '/api/images/{id}/mask',
+        tag: 'Images',
+        summary: 'Replace the removal mask and re-composite the image',
+        body: { schema: z.object({}), files: ['mask', 'backgroundImage'] }, // Files only
+        responses: { 200: { description: 'The re-composited image', schema: processingResponseSchema } },
+    },
+    {
+        method: 'post',
+        path: '/api/images/{id}/share',
+        tag: 'Images',
+        summary: 'Create a signed link that works without an API key',
+        body: { schema: shareLinkRequestSchema, json: true },
+        responses: { 201: { description: 'The link', schema: shareLinkSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/download/{id}',
+        tag: 'Images',
+        summary: 'Download the processed image',
+        query: downloadQuerySchema,
+        responses: { 200: { description: 'The image, as an attachment', contentType: 'image/*' } },
+    },
+    {
+        method: 'delete',
+        path: '/api/delete',
+        tag: 'Images',
+        summary: 'Delete an image and everything stored with it',
+        query: deleteQuerySchema,
+        responses: { 200: { description: 'Deleted', schema: deleteResponseSchema } },
+    },
+    {
+        method: 'post',
+        path: '/api/jobs',
+        tag: 'Jobs',
+        summary: 'Process an image in the background',
+        body: { schema: processingFieldsSchema, files: IMAGE_FILES },
+        responses: { 202: { description: 'The queued job', schema: createdJobSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/jobs/{id}',
+        tag: 'Jobs',
+        summary: 'Job status',
+        responses: { 200: { description: 'The job', schema: jobSnapshotSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/jobs/{id}/events',
+        tag: 'Jobs',
+        summary: 'Server-sent events named after each stage, with the JobSnapshot as data',
+        security: 'stream',
+        responses: { 200: { description: 'The event stream', contentType: 'text/event-stream' } },
+    },
+    {
+        method: 'delete',
+        path: '/api/jobs/{id}',
+        tag: 'Jobs',
+        summary: 'Cancel a queued or running job',
+        responses: { 200: { description: 'The job', schema: jobSnapshotSchema } },
+    },
+    {
+        method: 'post',
+        path: '/api/batches',
+        tag: 'Batches',
+        summary: 'Process many images with the same settings',
+        body: { schema: processingSettingsSchema, files: ['images', 'backgroundImage'] },
+        responses: { 202: { description: 'The started batch', schema: createdBatchSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/batches/{id}',
+        tag: 'Batches',
+        summary: 'Batch progress and per-file results',
+        responses: { 200: { description: 'The batch', schema: batchManifestSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/batches/{id}/zip',
+        tag: 'Batches',
+        summary: 'Every processed image of the batch as one ZIP',
+        responses: { 200: { description: 'The ZIP', contentType: 'application/zip' } },
+    },
+    {
+        method: 'get',
+        path: '/api/webhooks/deliveries',
+        tag: 'Webhooks',
+        summary: 'Webhook deliveries, newest first, with every attempt',
+        query: listWebhookDeliveriesQuerySchema,
+        responses: { 200: { description: 'One page of deliveries', schema: webhookDeliveryListSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/webhooks/deliveries/{id}',
+        tag: 'Webhooks',
+        summary: 'One webhook delivery',
+        responses: { 200: { description: 'The delivery', schema: webhookDeliverySchema } },
+    },
+    {
+        method: 'post',
+        path: '/api/webhooks/deliveries/{id}/replay',
+        tag: 'Webhooks',
+        summary: 'Send a delivery again, as a new delivery to the same URL',
+        responses: { 202: { description: 'The new delivery', schema: webhookDeliverySchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/share/{token}',
+        tag: 'Sharing',
+        summary: 'The file a signed link points to',
+        security: 'none',
+        responses: { 200: { description: 'The file', contentType: 'image/*' } },
+    },
+    {
+        method: 'get',
+        path: '/api/health',
+        tag: 'Operations',
+        summary: 'Whether storage and the background removal provider can be reached',
+        security: 'none',
+        responses: {
+            200: { description: 'Everything is reachable', schema: healthResponseSchema },
+            503: {
+                description: 'A dependency is failing, or the checks could not run',
+                schema: z.union([healthResponseSchema, healthErrorResponseSchema]),
+            },
+        },
+    },
+    {
+        method: 'get',
+        path: '/api/metrics',
+        tag: 'Operations',
+        summary: 'Metrics in the Prometheus text format; needs METRICS_TOKEN when set',
+        security: 'secret',
+        responses: { 200: { description: 'The metrics', contentType: 'text/plain' } },
+    },
+    {
+        method: 'get',
+        path: '/api/maintenance/sweep',
+        tag: 'Operations',
+        summary: 'Delete expired images; needs CRON_SECRET',
+        security: 'secret',
+        responses: { 200: { description: 'What was deleted', schema: sweepResultSchema } },
+    },
+    {
+        method: 'get',
+        path: '/api/openapi.json',
+        tag: 'Operations',
+        summary: 'This document',
+        security: 'none',
+        responses: { 200: { description: 'The OpenAPI document' } },
+    },
+];
+
+const COMPONENT_REF = '#/components/schemas/';
+
+// Leave out what zod adds that readers don't need: the safe integer range of
+// every integer, and the regexes behind uuid and date-time formats
+function tidy({ jsonSchema }: { jsonSchema: Record<string, unknown> }): void {
+    if (jsonSchema.minimum === Number.MIN_SAFE_INTEGER) delete jsonSchema.minimum;
+    if (jsonSchema.maximum === Number.MAX_SAFE_INTEGER) delete jsonSchema.maximum;
+    if (jsonSchema.format === 'uuid' || jsonSchema.format === 'date-time') delete jsonSchema.pattern;
+}
+
+// Named schemas are referenced as components; anything else is converted in
+// place, with the named schemas inside it pointed at their components
+function jsonSchema(schema: z.ZodType): Record<string, unknown> {
+    const id = z.globalRegistry.get(schema)?.id;
+    if (id) return { $ref: COMPONENT_REF + id };
+
+    const { $schema: _schema, $defs: _defs, ...converted } = z.toJSONSchema(schema, {
+        io: 'input',
+        unrepresentable: 'any',
+        override: tidy,
+    });
+    return JSON.parse(JSON.stringify(converted).replace(/"#\/\$defs\//g, `"${COMPONENT_REF}`));
+}
+
+function componentSchemas(): Record<string, unknown> {
+    const { schemas } = z.toJSONSchema(z.globalRegistry, {
+        io: 'input',
+        uri: (id) => COMPONENT_REF + id,
+        unrepresentable: 'any',
+        override: tidy,
+    });
+
+    return Object.fromEntries(
+        Object.entries(schemas).map(([id, { $schema: _schema, $id: _id, ...schema }]) => [id, schema])
+    );
+}
+
+function parameters(route: RouteSpec): Record<string, unknown>[] {
+    const pathParameters = [...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+    }));
+    if (!route.query) return pathParameters;
+
+    const query = jsonSchema(route.query) as { properties?: Record<string, Record<string, unknown>>; required?: string[] };
+    const queryParameters = Object.entries(query.properties ?? {}).map(([name, { description, ...schema }]) => ({
+        name,
+        in: 'query',
+        required: query.required?.includes(name) ?? false,
+        ...(description ? { description } : {}),
+        schema,
+    }));
+    return [...pathParameters, ...queryParameters];
+}
+
+// Multipart forms get the binary file fields on top of the schema's fields
+function requestBody(body: NonNullable<RouteSpec['body']>): Record<string, unknown> {
+    const schema = jsonSchema(body.schema);
+    const content: Record<string, unknown> = {};
+    if (body.files) {
+        const files = Object.fromEntries(body.files.map((name) => [name, { type: 'string', format: 'binary' }]));
+        content['multipart/form-data'] = { schema: { allOf: [schema, { type: 'object', properties: files }] } };
+    }
+    if (body.json || !body.files) {
+        content['application/json'] = { schema };
+    }
+    return { required: true, content };
+}
+
+function responses(route: RouteSpec): Record<string, unknown> {
+    const documented = Object.entries(route.responses).map(([status, response]) => {
+        const contentType = response.contentType ?? 'application/json';
+        const schema = response.schema
+            ? jsonSchema(response.schema)
+            : contentType.startsWith('image/') || contentType === 'application/zip'
+                ? { type: 'string', format: 'binary' }
+                : {};
+        return [status, { description: response.description, content: { [contentType]: { schema } } }];
+    });
+
+    const errors = { $ref: `${COMPONENT_REF}Error` };
+    return {
+        ...Object.fromEntries(documented),
+        default: { description: 'An error', content: { 'application/json': { schema: errors } } },
+    };
+}
+
+function security(route: RouteSpec): Record<string, string[]>[] {
+    switch (route.security ?? 'apiKey') {
+        case 'apiKey':
+            return [{ apiKeyHeader: [] }, { bearer: [] }];
+        case 'stream':
+            return [{ apiKeyHeader: [] }, { bearer: [] }, { streamToken: [] }];
+        case 'secret':
+            return [{ bearer: [] }];
+        case 'none':
+            return [];
+    }
+}
+
+// The POST a callback URL receives; see webhooks.ts for the signature
+function webhook(event: string, summary: string): Record<string, unknown> {
+    const header = (name: string, description: string, required = true) =>
+        ({ name, in: 'header', required, description, schema: { type: 'string' } });
+    return {
+        post: {
+            summary,
+            parameters: [
+                header('X-Webhook-Id', 'The delivery id; retries of a delivery repeat it'),
+                header('X-Webhook-Event', event),
+                header('X-Webhook-Timestamp', 'Unix time in seconds'),
+                header('X-Webhook-Signature', 'sha256= and the hex HMAC-SHA256 of "<timestamp>.<body>"; left out when no secret is set', false),
+            ],
+            requestBody: { required: true, content: { 'application/json': { schema: jsonSchema(webhookPayloadSchema) } } },
+            responses: { '2XX': { description: 'Delivered; anything else is retried' } },
+        },
+    };
+}
+
+let cachedDocument: Record<string, unknown> | null = null;
+
+export function openApiDocument(): Record<string, unknown> {
+    if (cachedDocument) return cachedDocument;
+
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const route of routes) {
+        paths[route.path] ??= {};
+        paths[route.path][route.method] = {
+            tags: [route.tag],
+            summary: route.summary,
+            parameters: parameters(route),
+            ...(route.body ? { requestBody: requestBody(route.body) } : {}),
+            responses: responses(route),
+            security: security(route),
+        };
+    }
+
+    cachedDocument = {
+        openapi: '3.1.0',
+        info: {
+            title: 'Background Remover API',
+            version: process.env.npm_package_version || '1.0.0',
+            description: 'API keys are only needed when REQUIRE_API_KEY=true.',
+        },
+        servers: [{ url: (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '') || '/' }],
+        paths,
+        webhooks: {
+            imageProcessed: webhook('image.processed', 'An image was processed'),
+            imageFailed: webhook('image.failed', 'Processing an image failed'),
+        },
+        components: {
+            schemas: componentSchemas(),
+            securitySchemes: {
+                apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+                streamToken: {
+                    type: 'apiKey',
+                    in: 'query',
+                    name: 'token',
+                    description: 'Short-lived token in the eventsUrl of a new job, valid for that URL only',
+                },
+                bearer: { type: 'http', scheme: 'bearer' },
+            },
+        },
+    };
+    return cachedDocument;
+}
@@ -0,0 +1,379 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+    convertToPng,
+    createThumbnail,
+    runPipeline,
+    encodeImage,
+    getImageInfo,
+    needsBackgroundImage,
+    operationsBeforeRemoval,
+    OUTPUT_FORMATS,
+    type OutputFormat,
+    type OutputOptions,
+    type PipelineContext,
+    type PipelineOperation,
+} from './imageProcessor.js';
+import {
+    originalFileName,
+    processedFileName,
+    cutoutFileName,
+    maskFileName,
+    thumbnailFileName,
+    getImageRecord,
+    saveImageRecord,
+    deleteImageFiles,
+    expiryFrom,
+    recordExpiresAt,
+    type ImageRecord,
+} from './images.js';
+import { uploadImage, deleteImage, readImage, fileExists } from './storage.js';
+import { viewUrl } from './shareLinks.js';
+import { NotFoundError, ValidationError } from './errors.js';
+import { logger } from './logger.js';
+import { processingStageDuration } from './metrics.js';
+import type { ProcessingRequest, ProcessingSettings } from './uploads.js';
+import type { CacheStatus, ProcessingResult, ProcessingStage } from './apiTypes.js';
+
+export type { ProcessingResult, ProcessingStage } from './apiTypes.js';
+
+export interface ProcessingHooks {
+    onStage?: (stage: ProcessingStage) => void;
+    signal?: AbortSignal;
+}
+
+// Wrap hooks so each stage's duration is recorded in the stage histogram and
+// logged when the next stage starts, or when `finish` is called. Stages a
+// failure interrupted are left out.
+function timeStages(imageId: string, hooks: ProcessingHooks): { hooks: ProcessingHooks; finish: () => void } {
+    let current: { stage: ProcessingStage; started: bigint } | null = null;
+
+    const finish = () => {
+        if (!current) return;
+        const seconds = Number(process.hrtime.bigint() - current.started) / 1e9;
+        processingStageDuration.observe({ stage: current.stage }, seconds);
+        logger.info('Stage finished', { imageId, stage: current.stage, durationMs: Math.round(seconds * 1000) });
+        current = null;
+    };
+
+    return {
+        hooks: {
+            ...hooks,
+            onStage: (stage) => {
+                if (current?.stage === stage) return;
+                finish();
+                current = { stage, started: process.hrtime.bigint() };
+                hooks.onStage?.(stage);
+            },
+        },
+        finish,
+    };
+}
+
+// File extensions for originals, by sharp's format name
+const ORIGINAL_EXTENSIONS: Record<string, string> = { jpeg: 'jpg', heif: 'heic' };
+
+// Run the pipeline on a PNG. Also returns the transparent cutout when it was
+// covered by a background or will be flattened for JPEG, so the background
+// can be replaced later, and the mask background removal produced. A given
+// `removalMask` is reused instead of calling the provider. `cacheKeys` names
+// the result cache entries used, which are deleted along with the image.
+async function renderImage(
+    pngBuffer: Buffer,
+    { operations, output, backgroundImage }: ProcessingSettings,
+    { onStage, signal }: ProcessingHooks,
+    removalMask?: Buffer
+): Promise<{
+    resultBuffer: Buffer;
+    cutout: Buffer | null;
+    mask: Buffer | null;
+    cache: CacheStatus;
+    cacheKeys: string[];
+}> {
+    const context: PipelineContext = {
+        backgroundImage,
+        removalMask,
+        signal,
+        onOperation: (operation) => {
+            onStage?.(operation.type === 'removeBackground' ? 'removing_background' : 'post_processing');
+        },
+    };
+    const resultBuffer = await runPipeline(pngBuffer, operations, context);
+    const cutout = context.cutout ?? (OUTPUT_FORMATS[output.format].alpha ? null : resultBuffer);
+
+    const mask = operationsBeforeRemoval(operations) ? context.removalMask ?? null : null;
+
+    return { resultBuffer, cutout, mask, cache: context.cache ?? 'skipped', cacheKeys: context.cacheKeys ?? [] };
+}
+
+// Encode and store a result with its thumbnail, removing the previous
+// processed file when the format (and so the storage key) changed
+export async function storeProcessedImage(
+    imageId: string,
+    resultBuffer: Buffer,
+    output: OutputOptions,
+    previousFileName?: string
+): Promise<{ processed: ImageRecord['processed']; processedUrl: string }> {
+    const processedBuffer = await encodeImage(resultBuffer, output);
+    const fileName = processedFileName(imageId, output.format);
+    await uploadImage(processedBuffer, fileName, OUTPUT_FORMATS[output.format].contentType);
+
+    if (previousFileName && previousFileName !== fileName) {
+        await deleteImage(previousFileName);
+    }
+
+    await uploadImage(await createThumbnail(resultBuffer), thumbnailFileName(imageId), 'image/webp');
+
+    const { width, height, size } = await getImageInfo(processedBuffer);
+    return {
+        processed: { fileName, format: output.format, size, width, height, thumbnailFileName: thumbnailFileName(imageId) },
+        processedUrl: viewUrl(imageId),
+    };
+}
+
+// Store the cutout, or remove a stale one when the new result has none
+async function storeCutout(imageId: string, cutout: Buffer | null): Promise<string | null> {
+    if (cutout) {
+        await uploadImage(cutout, cutoutFileName(imageId), 'image/png');
+        return cutoutFileName(imageId);
+    }
+
+    await deleteImage(cutoutFileName(imageId));
+    return null;
+}
+
+// Store the removal mask, or remove a stale one when the pipeline had none
+async function storeMask(imageId: string, mask: Buffer | null): Promise<string | null> {
+    if (mask) {
+        await uploadImage(mask, maskFileName(imageId), 'image/png');
+        return maskFileName(imageId);
+    }
+
+    await deleteImage(maskFileName(imageId));
+    return null;
+}
+
+// Remove what a new image stored before failing. No record points at the
+// files yet, so the sweeper would never find them.
+async function discardNewImage(imageId: string, original: ImageRecord['original'], output: OutputOptions): Promise<void> {
+    try {
+        await Promise.all([
+            deleteImage(original.fileName),
+            deleteImage(processedFileName(imageId, output.format)),
+            deleteImageFiles(imageId, null),
+        ]);
+    } catch (error) {
+        logger.error('Failed to remove files of a failed upload', { imageId, error });
+    }
+}
+
+// The stored removal mask, when the new operations would cut out the same image
+async function reusableMask(record: ImageRecord, operations: PipelineOperation[]): Promise<Buffer | undefined> {
+    const before = operationsBeforeRemoval(operations);
+    if (!record.maskFileName || !before) return undefined;
+    if (JSON.stringify(before) !== JSON.stringify(operationsBeforeRemoval(record.operations))) return undefined;
+    if (!(await fileExists(record.maskFileName))) return undefined;
+
+    return readImage(record.maskFileName);
+}
+
+// Convert, run the pipeline, encode and store one upload with its original
+export async function processImage(
+    request: ProcessingRequest,
+    hooks: ProcessingHooks = {}
+): Promise<ProcessingResult> {
+    const { operations, output } = request;
+    const imageId = uuidv4();
+    const timer = timeStages(imageId, hooks);
+    hooks = timer.hooks;
+
+    // Convert to PNG for API compatibility
+
+    hooks.onStage?.('converting');
+    const info = await getImageInfo(request.imageBuffer);
+    const pngBuffer = await convertToPng(request.imageBuffer);
+
+    // Run the requested operations (remove background, flip, ...)
+
+    const { resultBuffer, cutout, mask, cache, cacheKeys } = await renderImage(pngBuffer, request, hooks);
+
+    // Store the original, the result and the sidecar record
+
+    hooks.signal?.throwIfAborted();
+    hooks.onStage?.('uploading');
+
+    const original: ImageRecord['original'] = {
+        fileName: originalFileName(imageId, ORIGINAL_EXTENSIONS[info.format] ?? info.format),
+        originalName: request.originalName,
+        contentType: request.contentType,
+        size: info.size,
+        width: info.width,
+        height: info.height,
+    };
+    const now = new Date().toISOString();
+    const expiresAt = expiryFrom(request.retentionHours);
+    let processedUrl: string;
+    try {
+        await uploadImage(request.imageBuffer, original.fileName, original.contentType);
+        const stored = await storeProcessedImage(imageId, resultBuffer, output);
+        processedUrl = stored.processedUrl;
+
+        await saveImageRecord({
+            imageId,
+            createdAt: now,
+            updatedAt: now,
+            original,
+            processed: stored.processed,
+            operations,
+            output,
+            cutoutFileName: await storeCutout(imageId, cutout),
+            maskFileName: await storeMask(imageId, mask),
+            expiresAt,
+            ownerKeyId: request.ownerKeyId ?? null,
+            cacheKeys,
+        });
+    } catch (error) {
+        await discardNewImage(imageId, original, output);
+        throw error;
+    }
+    timer.finish();
+
+    return {
+        imageId,
+        originalUrl: viewUrl(imageId, 'original'),
+        processedUrl,
+        format: output.format,
+        operations,
+        cache,
+        expiresAt,
+    };
+}
+
+// The upload pipeline without storage: convert, run the operations and encode
+// one image, returning the encoded result. Used by the bgremove command.
+export async function renderImageLocally(
+    imageBuffer: Buffer,
+    settings: ProcessingSettings,
+    hooks: ProcessingHooks = {}
+): Promise<{ buffer: Buffer; cache: CacheStatus }> {
+    hooks.onStage?.('converting');
+    const pngBuffer = await convertToPng(imageBuffer);
+    const { resultBuffer, cache } = await renderImage(pngBuffer, settings, hooks);
+
+    hooks.signal?.throwIfAborted();
+    return { buffer: await encodeImage(resultBuffer, settings.output), cache };
+}
+
+// Run new settings on the stored original of an existing image. The stored
+// removal mask is reused when it still applies, so mask refinements don't
+// call the provider again.
+export async function reprocessImage(
+    imageId: string,
+    settings: ProcessingSettings,
+    hooks: ProcessingHooks = {}
+): Promise<ProcessingResult> {
+    const record = await getImageRecord(imageId);
+    if (!record) {
+        throw new NotFoundError('Image not found');
+    }
+
+    const timer = timeStages(imageId, hooks);
+    timer.hooks.onStage?.('converting');
+    const pngBuffer = await convertToPng(await readImage(record.original.fileName));
+
+    const result = await rerenderImage(record, pngBuffer, settings, timer.hooks, await reusableMask(record, settings.operations));
+    timer.finish();
+    return result;
+}
+
+// Re-composite an image with a hand-edited removal mask: white keeps a pixel
+// of the original, black removes it. The image keeps its operations and
+// output settings, and the mask replaces the stored one.
+export async function replaceMask(imageId: string, maskBuffer: Buffer, backgroundImage?: Buffer): Promise<ProcessingResult> {
+    const record = await getImageRecord(imageId);
+    if (!record) {
+        throw new NotFoundError('Image not found');
+    }
+
+    const before = operationsBeforeRemoval(record.operations);
+    if (!before) {
+        throw new ValidationError('Image was processed without background removal, so it has no mask to edit');
+    }
+    if (needsBackgroundImage(record.operations) && !backgroundImage) {
+        throw new ValidationError('A backgroundImage file is required for the image background mode');
+    }
+
+    // The mask has to cover the image exactly as background removal saw it
+    const pngBuffer = await convertToPng(await readImage(record.original.fileName));
+    const [expected, actual] = await Promise.all([
+        getImageInfo(await runPipeline(pngBuffer, before)),
+        getImageInfo(maskBuffer),
+    ]);
+    if (expected.width !== actual.width || expected.height !== actual.height) {
+        throw new ValidationError(`mask must be ${expected.width}x${expected.height} pixels`);
+    }
+
+    const settings = { operations: record.operations, output: record.output, backgroundImage };
+    const timer = timeStages(imageId, {});
+    const result = await rerenderImage(record, pngBuffer, settings, timer.hooks, await convertToPng(maskBuffer));
+    timer.finish();
+    return result;
+}
+
+// Run settings on an image's original and store the result over the old one.
+// The expiry only changes when the settings ask for a new retention period.
+async function rerenderImage(
+    record: ImageRecord,
+    pngBuffer: Buffer,
+    settings: ProcessingSettings,
+    hooks: ProcessingHooks,
+    removalMask?: Buffer
+): Promise<ProcessingResult> {
+    const { imageId } = record;
+    const { resultBuffer, cutout, mask, cache, cacheKeys } = await renderImage(pngBuffer, settings, hooks, removalMask);
+
+    hooks.signal?.throwIfAborted();
+    hooks.onStage?.('uploading');
+
+    // The previous processed file stays until the new record is saved, so the
+    // old record keeps pointing at a file if anything below fails. A file in
+    // a new format is removed then, as no record points at it.
+    const newFileName = processedFileName(imageId, settings.output.format);
+    const formatChanged = newFileName !== record.processed.fileName;
+
+    const expiresAt = settings.retentionHours === undefined
+        ? recordExpiresAt(record)
+        : expiryFrom(settings.retentionHours);
+
+    let processedUrl: string;
+    try {
+        const stored = await storeProcessedImage(imageId, resultBuffer, settings.output);
+        processedUrl = stored.processedUrl;
+
+        await saveImageRecord({
+            ...record,
+            updatedAt: new Date().toISOString(),
+            processed: stored.processed,
+            operations: settings.operations,
+            output: settings.output,
+            cutoutFileName: await storeCutout(imageId, cutout),
+            maskFileName: await storeMask(imageId, mask),
+            expiresAt,
+            // Earlier entries still hold this image's data, so they stay listed
+            cacheKeys: [...new Set([...(record.cacheKeys ?? []), ...cacheKeys])],
+        });
+    } catch (error) {
+        if (formatChanged) await deleteImage(newFileName).catch(() => undefined);
+        throw error;
+    }
+    if (formatChanged) await deleteImage(record.processed.fileName);
+
+    return {
+        imageId,
+        originalUrl: viewUrl(imageId, 'original'),
+        processedUrl,
+        format: settings.output.format,
+        operations: settings.operations,
+        cache,
+        expiresAt,
+    };
+}
@@ -0,0 +1,113 @@
+import type { LookupFunction } from 'net';
+import dns from 'dns/promises';
+import net from 'net';
+import { RemoteImageError, ValidationError } from './errors.js';
+
+// Guards for URLs the server connects to on a caller's behalf (image imports
+// and webhook callbacks), so they can't be pointed at the server's own network
+
+export interface ResolvedAddress {
+    address: string;
+    family: number;
+}
+
+// Loopback, private, link-local and other non-public ranges a URL must not
+// reach, plus the 6to4 ranges (2002::/16 and its relays), whose addresses
+// embed an IPv4 address that may be private
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.0.2.0', 24],
+    ['192.88.99.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['198.51.100.0', 24],
+    ['203.0.113.0', 24],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96],
+    ['100::', 64],
+    ['2001:db8::', 32],
+    ['2002::', 16],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+function isBlockedAddress(address: string, family: number): boolean {
+    return blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// An http(s) URL without credentials, with errors naming the request field
+export function parseHttpUrl(raw: unknown, field: string = 'url'): URL {
+    if (typeof raw !== 'string' || raw.trim() === '') {
+        throw new ValidationError(`${field} must be a non-empty string`);
+    }
+
+    let url: URL;
+    try {
+        url = new URL(raw.trim());
+    } catch {
+        throw new ValidationError(`${field} must be a valid URL`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ValidationError(`${field} must use http or https`);
+    }
+    if (url.username || url.password) {
+        throw new ValidationError(`${field} must not contain credentials`);
+    }
+
+    return url;
+}
+
+// Resolve the host once and check every address it has, so the connection
+// goes to an address that was checked even if DNS changes in between.
+// `allowPrivate` skips the check, for talking to a local test receiver.
+export async function resolvePublicAddress(
+    url: URL,
+    field: string = 'url',
+    allowPrivate: boolean = false
+): Promise<ResolvedAddress> {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+    let addresses: ResolvedAddress[];
+    try {
+        addresses = await dns.lookup(hostname, { all: true });
+    } catch {
+        throw new RemoteImageError(`Could not resolve host ${hostname}`);
+    }
+
+    const blocked = !allowPrivate && addresses.some(({ address, family }) => isBlockedAddress(address, family));
+    if (addresses.length === 0 || blocked) {
+        throw new ValidationError(`${field} must point to a public address`);
+    }
+
+    return addresses[0];
+}
+
+// A `lookup` option for http(s) requests that connects to an already checked
+// address instead of resolving the host again
+export function pinnedLookup(address: ResolvedAddress): LookupFunction {
+    return (_hostname, options, callback) => {
+        if ((options as { all?: boolean }).all) {
+            (callback as (...args: unknown[]) => void)(null, [address]);
+        } else {
+            callback(null, address.address, address.family);
+        }
+    };
+}
@@ -0,0 +1,64 @@
+// Fixed-window request counters. They live in this process, so each server
+// instance counts separately.
+
+export interface LimitState {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    reset: number; // Unix time in seconds when the window restarts
+}
+
+interface Window {
+    start: number;
+    count: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const minuteWindows = new Map<string, Window>();
+const dayWindows = new Map<string, Window>();
+const prunedAt = new Map<Map<string, Window>, number>();
+
+// Drop the windows of earlier periods, at most once per period, so keys that
+// stop making requests (or are deleted) don't stay in memory
+function prune(windows: Map<string, Window>, start: number): void {
+    if (prunedAt.get(windows) === start) return;
+    prunedAt.set(windows, start);
+
+    for (const [id, window] of windows) {
+        if (window.start !== start) windows.delete(id);
+    }
+}
+
+// Count `amount` against a window, unless that would go over the limit
+function take(windows: Map<string, Window>, id: string, windowMs: number, limit: number, amount: number): LimitState {
+    const start = Math.floor(Date.now() / windowMs) * windowMs;
+    prune(windows, start);
+
+    let window = windows.get(id);
+    if (!window || window.start !== start) {
+        window = { start, count: 0 };
+        windows.set(id, window);
+    }
+
+    const allowed = window.count + amount <= limit;
+    if (allowed) window.count += amount;
+
+    return {
+        allowed,
+        limit,
+        remaining: Math.max(limit - window.count, 0),
+        reset: Math.ceil((start + windowMs) / 1000),
+    };
+}
+
+// One request against a per-minute limit
+export function takeRateLimit(id: string, limit: number): LimitState {
+    return take(minuteWindows, id, MINUTE_MS, limit, 1);
+}
+
+// `amount` images against a daily quota (days are UTC)
+export function takeQuota(id: string, limit: number, amount: number): LimitState {
+    return take(dayWindows, id, DAY_MS, limit, amount);
+}
@@ -0,0 +1,121 @@
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import { HttpError, PayloadTooLargeError, RemoteImageError, UnsupportedMediaTypeError } from './errors.js';
+import { parseHttpUrl, pinnedLookup, resolvePublicAddress, type ResolvedAddress } from './publicUrls.js';
+
+const TIMEOUT_MS = Number(process.env.URL_IMPORT_TIMEOUT_MS) || 10000;
+const MAX_BYTES = Number(process.env.URL_IMPORT_MAX_BYTES) || 25 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+export interface RemoteImage {
+    buffer: Buffer;
+    originalName: string;
+    contentType: string;
+}
+
+// File name for the import, taken from the last path segment
+function nameFromUrl(url: URL, contentType: string): string {
+    let name = '';
+    try {
+        name = path.posix.basename(decodeURIComponent(url.pathname));
+    } catch {
+        // Malformed escapes, use the fallback
+    }
+    if (name) return name;
+
+    return `image.${contentType.split('/')[1]?.split('+')[0] || 'png'}`;
+}
+
+interface RemoteResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: http.IncomingMessage;
+}
+
+// One GET request pinned to an already checked address
+function request(url: URL, address: ResolvedAddress, signal: AbortSignal): Promise<RemoteResponse> {
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const req = client.get(url, {
+            signal,
+            headers: { 'Accept': 'image/*', 'User-Agent': 'background-remover' },
+            lookup: pinnedLookup(address),
+        }, (res) => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: res }));
+        req.on('error', reject);
+    });
+}
+
+// Read a response body, giving up once it goes over the size limit
+async function readBody(body: http.IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of body) {
+        size += chunk.length;
+        if (size > MAX_BYTES) {
+            body.destroy();
+            throw new PayloadTooLargeError(`The image at the URL is larger than ${Math.floor(MAX_BYTES / (1024 * 1024))}MB`);
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+async function fetchWithRedirects(start: URL, signal: AbortSignal): Promise<RemoteImage> {
+    let url = start;
+
+    for (let redirects = 0; ; redirects++) {
+        const response = await request(url, await resolvePublicAddress(url), signal);
+
+        // Every hop is checked like the original URL
+        if (response.status >= 300 && response.status < 400 && response.headers.location) {
+            response.body.resume();
+            if (redirects >= MAX_REDIRECTS) {
+                throw new RemoteImageError('The URL redirected too many times');
+            }
+            url = parseHttpUrl(new URL(response.headers.location, url).href);
+            continue;
+        }
+
+        if (response.status < 200 || response.status >= 300) {
+            response.body.resume();
+            throw new RemoteImageError(`The URL responded with HTTP ${response.status}`);
+        }
+
+        const contentType = (response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+        if (!contentType.startsWith('image/')) {
+            response.body.resume();
+            throw new UnsupportedMediaTypeError(`The URL is not an image (content type ${contentType || 'unknown'})`);
+        }
+
+        const declaredSize = Number(response.headers['content-length']);
+        if (declaredSize > MAX_BYTES) {
+            response.body.destroy();
+            throw new PayloadTooLargeError(`The image at the URL is larger than ${Math.floor(MAX_BYTES / (1024 * 1024))}MB`);
+        }
+
+        return {
+            buffer: await readBody(response.body),
+            originalName: nameFromUrl(url, contentType),
+            contentType,
+        };
+    }
+}
+
+// Download an image from a public http(s) URL, with redirect, size and time
+// limits
+export async function fetchRemoteImage(rawUrl: unknown): Promise<RemoteImage> {
+    const url = parseHttpUrl(rawUrl);
+    const signal = AbortSignal.timeout(TIMEOUT_MS);
+
+    try {
+        return await fetchWithRedirects(url, signal);
+    } catch (error) {
+        if (error instanceof HttpError) throw error;
+        if (signal.aborted) {
+            throw new RemoteImageError(`Fetching the URL timed out after ${TIMEOUT_MS / 1000}s`);
+        }
+        throw new RemoteImageError(`Could not fetch the URL: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+}
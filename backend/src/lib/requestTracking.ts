@@ -0,0 +1,44 @@
+import type express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { logger, withLogContext } from './logger.js';
+import { httpRequests, httpRequestDuration } from './metrics.js';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Ids from a proxy or client are kept when they look like ids
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Route pattern rather than the raw path, so ids don't make every request a
+// separate metric series
+function routeLabel(req: express.Request): string {
+    if (!req.route) return 'unmatched';
+    return req.route.path === '/' ? req.baseUrl || '/' : `${req.baseUrl}${req.route.path}`;
+}
+
+// Give every request an id, echoed in X-Request-Id and added to every log line
+// written while handling it, then log and count the response
+export function trackRequests(req: express.Request, res: express.Response, next: express.NextFunction): void {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : uuidv4();
+    const started = process.hrtime.bigint();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    // 'finish' fires outside the request's log context, so the id is passed on
+    res.on('finish', () => {
+        const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+        const route = routeLabel(req);
+        httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+        httpRequestDuration.observe({ method: req.method, route }, seconds);
+
+        logger.info('Request finished', {
+            requestId,
+            method: req.method,
+            path: req.originalUrl.split('?')[0], // The query may hold a stream token
+            route,
+            status: res.statusCode,
+            durationMs: Math.round(seconds * 1000),
+        });
+    });
+
+    withLogContext({ requestId }, next);
+}
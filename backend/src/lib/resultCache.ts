@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { getBackgroundRemover } from './backgroundRemover.js';
+import { uploadImage, fileExists, readImage, deleteImage, listFiles } from './storage.js';
+import { logger } from './logger.js';
+import type { CacheStatus } from './apiTypes.js';
+
+export type { CacheStatus } from './apiTypes.js';
+
+// Cutouts keyed by a hash of the provider's input, so the same image isn't
+// sent to the provider (and billed) twice. The provider name is part of the
+// key, which invalidates every entry when the provider changes. Images record
+// the entries they used (`<provider>/<hash>`), and deleting or expiring an
+// image deletes them too, so a cutout never outlives the images made from it.
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+// BG_CACHE_TTL_HOURS=0 turns the cache off
+function getTtlMs(): number {
+    const hours = Number(process.env.BG_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+    return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+function cacheFileNames(cacheKey: string): { image: string; entry: string } {
+    return {
+        image: `cache/${cacheKey}.png`,
+        entry: `cache/${cacheKey}.json`,
+    };
+}
+
+async function isEntryExpired(entryFileName: string, ttlMs: number): Promise<boolean> {
+    const { createdAt } = JSON.parse((await readImage(entryFileName)).toString('utf8')) as { createdAt: string };
+    return Date.now() - new Date(createdAt).getTime() > ttlMs;
+}
+
+async function readFreshEntry(fileNames: { image: string; entry: string }, ttlMs: number): Promise<Buffer | null> {
+    if (!(await fileExists(fileNames.entry))) return null;
+    if (await isEntryExpired(fileNames.entry, ttlMs)) return null;
+
+    return readImage(fileNames.image);
+}
+
+// Remove the background, reusing a stored cutout for identical input
+export async function removeBackgroundCached(
+    imageBuffer: Buffer
+): Promise<{ buffer: Buffer; cache: CacheStatus; cacheKey: string | null }> {
+    const provider = getBackgroundRemover();
+    const ttlMs = getTtlMs();
+
+    if (!ttlMs) {
+        return { buffer: await provider.removeBackground(imageBuffer), cache: 'skipped', cacheKey: null };
+    }
+
+    const hash = createHash('sha256').update(imageBuffer).digest('hex');
+    const cacheKey = `${provider.name}/${hash}`;
+    const fileNames = cacheFileNames(cacheKey);
+
+    try {
+        const cached = await readFreshEntry(fileNames, ttlMs);
+        if (cached) return { buffer: cached, cache: 'hit', cacheKey };
+    } catch (error) {
+        // A broken cache entry is just a miss
+        logger.error('Result cache read error', { error });
+    }
+
+    const buffer = await provider.removeBackground(imageBuffer);
+
+    // The image goes first so a readable entry always has its image
+    try {
+        await uploadImage(buffer, fileNames.image, 'image/png');
+        await uploadImage(
+            Buffer.from(JSON.stringify({ createdAt: new Date().toISOString() })),
+            fileNames.entry,
+            'application/json'
+        );
+    } catch (error) {
+        logger.error('Result cache write error', { error });
+        return { buffer, cache: 'miss', cacheKey: null };
+    }
+
+    return { buffer, cache: 'miss', cacheKey };
+}
+
+// Delete one entry, e.g. when an image made from it is deleted
+export async function deleteCacheEntry(cacheKey: string): Promise<void> {
+    const fileNames = cacheFileNames(cacheKey);
+
+    // The entry goes first so a readable entry always has its image
+    await deleteImage(fileNames.entry);
+    await deleteImage(fileNames.image);
+}
+
+// Delete expired entries for every provider (all of them when the cache is
+// off). Returns how many were removed.
+export async function sweepExpiredCacheEntries(): Promise<number> {
+    const ttlMs = getTtlMs();
+    const entries = (await listFiles('cache/')).filter((fileName) => fileName.endsWith('.json'));
+
+    let removed = 0;
+    for (const entry of entries) {
+        // Unreadable entries are never hits, so they go too
+        if (ttlMs && !(await isEntryExpired(entry, ttlMs).catch(() => true))) continue;
+
+        // The entry goes first so a readable entry always has its image
+        await deleteImage(entry);
+        await deleteImage(entry.replace(/\.json$/, '.png'));
+        removed++;
+    }
+
+    return removed;
+}
@@ -0,0 +1,20 @@
+import type express from 'express';
+import { NotSupportedError, sendError } from './errors.js';
+
+// Serverless deployments (Vercel) freeze a function once it has responded
+// and spread requests over instances, so work can't outlive its request
+// there and in-memory state isn't shared between requests
+export const isServerless = !!process.env.VERCEL;
+
+// Refuse requests to endpoints that need a long-running server process
+export function requireLongRunningServer(feature: string): express.RequestHandler {
+    return (_req, res, next) => {
+        if (!isServerless) return next();
+
+        sendError(
+            res,
+            new NotSupportedError(`${feature} need a long-running server and aren't available on this deployment`),
+            'Not supported'
+        );
+    };
+}
@@ -0,0 +1,159 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createFile, readImage, deleteImage, listFiles } from './storage.js';
+import { GoneError, HttpError } from './errors.js';
+import { logger } from './logger.js';
+import type { ShareLink, SharedFile } from './apiTypes.js';
+
+export type { ShareLink, SharedFile } from './apiTypes.js';
+
+// Signed links to stored images, served by /api/share/:token. A token is a
+// base64url JSON payload plus its HMAC-SHA256 signature, so links can be
+// checked without storing them. Only single-use links leave a trace: a
+// marker under shares/used/ once they have been opened.
+
+export interface SharePayload {
+    imageId: string;
+    file: SharedFile;
+    expiresAt: number; // Unix time in seconds
+    singleUse: boolean;
+    downloadOnly: boolean;
+    nonce: string;
+}
+
+export interface ShareLinkOptions {
+    file?: SharedFile;
+    expiresIn?: number; // Seconds
+    singleUse?: boolean;
+    downloadOnly?: boolean;
+}
+
+// Lifetime of the links the app itself uses to show images
+const VIEW_LINK_SECONDS = Number(process.env.VIEW_LINK_SECONDS) || 60 * 60;
+export const MAX_SHARE_LINK_SECONDS = Number(process.env.MAX_SHARE_LINK_SECONDS) || 7 * 24 * 60 * 60;
+
+let generatedSecret: string | null = null;
+
+// SHARE_LINK_SECRET signs links. Without it a random secret is used, so links
+// stop working when the server restarts.
+function getSecret(): string {
+    const secret = process.env.SHARE_LINK_SECRET;
+    if (secret) return secret;
+
+    if (!generatedSecret) {
+        logger.warn('SHARE_LINK_SECRET is not set; share links will not survive a restart');
+        generatedSecret = randomBytes(32).toString('hex');
+    }
+    return generatedSecret;
+}
+
+function sign(encodedPayload: string): Buffer {
+    return createHmac('sha256', getSecret()).update(encodedPayload).digest();
+}
+
+// What a signed token was issued for. Tokens share one secret, so each is
+// only accepted for its own purpose.
+export type TokenPurpose = 'share' | 'stream';
+
+// A base64url JSON payload plus its signature, for share links and other
+// short-lived tokens handed to clients
+export function signPayload(purpose: TokenPurpose, payload: object): string {
+    const encodedPayload = Buffer.from(JSON.stringify({ ...payload, purpose })).toString('base64url');
+    return `${encodedPayload}.${sign(encodedPayload).toString('base64url')}`;
+}
+
+// The payload of a token from signPayload, or null when the signature doesn't
+// match or it was issued for something else. Share links signed before tokens
+// named their purpose have none, and count as share links.
+export function readSignedPayload<T>(purpose: TokenPurpose, token: string): T | null {
+    const [encodedPayload, encodedSignature] = token.split('.');
+    const signature = Buffer.from(encodedSignature ?? '', 'base64url');
+    const expected = encodedPayload ? sign(encodedPayload) : null;
+
+    if (!expected || signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+        return null;
+    }
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as T & { purpose?: TokenPurpose };
+    return (payload.purpose ?? 'share') === purpose ? payload : null;
+}
+
+function usedMarkerFileName(nonce: string): string {
+    return `shares/used/${nonce}.json`;
+}
+
+// Sign a link to one of an image's files
+export function createShareLink(imageId: string, options: ShareLinkOptions = {}): ShareLink {
+    const payload: SharePayload = {
+        imageId,
+        file: options.file ?? 'processed',
+        expiresAt: Math.floor(Date.now() / 1000) + (options.expiresIn ?? VIEW_LINK_SECONDS),
+        singleUse: options.singleUse ?? false,
+        downloadOnly: options.downloadOnly ?? false,
+        nonce: randomBytes(8).toString('base64url'),
+    };
+
+    const token = signPayload('share', payload);
+    const baseUrl = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
+
+    return {
+        url: `${baseUrl}/api/share/${token}`,
+        expiresAt: new Date(payload.expiresAt * 1000).toISOString(),
+        file: payload.file,
+        singleUse: payload.singleUse,
+        downloadOnly: payload.downloadOnly,
+    };
+}
+
+// Short-lived link for showing an image in the app
+export function viewUrl(imageId: string, file: SharedFile = 'processed'): string {
+    return createShareLink(imageId, { file }).url;
+}
+
+// Check a token's signature and expiry and return what it grants
+export function verifyShareToken(token: string): SharePayload {
+    const payload = readSignedPayload<SharePayload>('share', token);
+    if (!payload) {
+        throw new HttpError(403, 'Invalid share link', 'invalid_link');
+    }
+    if (payload.expiresAt * 1000 <= Date.now()) {
+        throw new GoneError('This link has expired');
+    }
+
+    return payload;
+}
+
+// Mark a single-use link as used, failing if it already was. The marker is
+// created atomically, so of two requests opening the link at once only one
+// gets through.
+export async function consumeShareToken(payload: SharePayload): Promise<void> {
+    const usedAt = new Date().toISOString();
+    const created = await createFile(
+        Buffer.from(JSON.stringify({ usedAt, expiresAt: payload.expiresAt })),
+        usedMarkerFileName(payload.nonce),
+        'application/json'
+    );
+    if (!created) {
+        throw new GoneError('This link has already been used');
+    }
+}
+
+// Delete markers of single-use links that have expired anyway. Returns how
+// many were removed.
+export async function sweepUsedShareMarkers(): Promise<number> {
+    let removed = 0;
+
+    for (const marker of await listFiles('shares/used/')) {
+        // One unreadable marker shouldn't stop the sweep; it is kept, since
+        // deleting it could make its link usable again
+        try {
+            const { expiresAt } = JSON.parse((await readImage(marker)).toString('utf8')) as { expiresAt: number };
+            if (expiresAt * 1000 <= Date.now()) {
+                await deleteImage(marker);
+                removed++;
+            }
+        } catch (error) {
+            logger.warn('Skipping unreadable share link marker', { marker, error });
+        }
+    }
+
+    return removed;
+}
@@ -0,0 +1,76 @@
+import { getImageRecord, listImageIds } from './images.js';
+import { sweepExpiredCacheEntries } from './resultCache.js';
+import { sweepUsedShareMarkers } from './shareLinks.js';
+import { sweepWebhookDeliveries } from './webhooks.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { GoneError } from './errors.js';
+import { logger } from './logger.js';
+import type { SweepResult } from './apiTypes.js';
+
+export type { SweepResult } from './apiTypes.js';
+
+// Deletes expired images, cache entries, single-use link markers and old
+// webhook deliveries, and resumes webhook retries a restart dropped.
+// Long-running servers sweep on a timer; serverless deployments call the
+// sweep route from a cron job.
+
+const SWEEP_CONCURRENCY = 5;
+
+// Loading a record expires the image when it's due, so the sweep just loads
+// every record
+export async function sweepExpiredImages(): Promise<SweepResult> {
+    const imageIds = await listImageIds();
+
+    const result: SweepResult = {
+        checked: imageIds.length,
+        expired: 0,
+        failed: 0,
+        cacheEntriesRemoved: 0,
+        shareMarkersRemoved: 0,
+        webhookDeliveriesRemoved: 0,
+        webhookDeliveriesResumed: 0,
+    };
+
+    await mapWithConcurrency(imageIds, SWEEP_CONCURRENCY, async (imageId) => {
+        try {
+            await getImageRecord(imageId);
+        } catch (error) {
+            if (error instanceof GoneError) {
+                result.expired++;
+            } else {
+                logger.error('Sweep error', { imageId, error });
+                result.failed++;
+            }
+        }
+    });
+
+    result.cacheEntriesRemoved = await sweepExpiredCacheEntries();
+    result.shareMarkersRemoved = await sweepUsedShareMarkers();
+
+    const webhooks = await sweepWebhookDeliveries();
+    result.webhookDeliveriesRemoved = webhooks.removed;
+    result.webhookDeliveriesResumed = webhooks.resumed;
+    return result;
+}
+
+// Sweep every SWEEP_INTERVAL_MINUTES (default 60, 0 turns it off)
+export function startSweeper(): void {
+    const minutes = Number(process.env.SWEEP_INTERVAL_MINUTES ?? 60);
+    if (!Number.isFinite(minutes) || minutes <= 0) return;
+
+    let sweeping = false;
+    setInterval(async () => {
+        if (sweeping) return;
+        sweeping = true;
+        try {
+            const result = await sweepExpiredImages();
+            if (Object.entries(result).some(([name, count]) => name !== 'checked' && count > 0)) {
+                logger.info('Sweep finished', { ...result });
+            }
+        } catch (error) {
+            logger.error('Sweep error', { error });
+        } finally {
+            sweeping = false;
+        }
+    }, minutes * 60 * 1000).unref();
+}
@@ -0,0 +1,191 @@
+import { AsyncResource } from 'async_hooks';
+import type express from 'express';
+import multer from 'multer';
+import {
+    parseOperations,
+    parseOutputOptions,
+    needsBackgroundImage,
+    type OutputOptions,
+    type PipelineOperation,
+} from './imageProcessor.js';
+import { parseRequest, processingFieldsSchema, processingSettingsSchema } from './apiSchemas.js';
+import { HttpError, PayloadTooLargeError, ValidationError, sendError } from './errors.js';
+import { sanitizeImage } from './imageValidation.js';
+import { fetchRemoteImage } from './remoteImages.js';
+import { parseHttpUrl } from './publicUrls.js';
+
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Configure multer for memory storage. The client's content type isn't
+// trusted; files are checked by their contents in sanitizeUploads.
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_BYTES },
+});
+
+const FIELD_LABELS: Record<string, string> = {
+    backgroundImage: 'Background image',
+    mask: 'Mask',
+};
+
+// Optional `keepColorProfile` field: keep the ICC profile of uploads
+function keepsColorProfile(req: express.Request): boolean {
+    return req.body?.keepColorProfile === true || req.body?.keepColorProfile === 'true';
+}
+
+// Multer's own errors as API errors
+function toUploadError(error: unknown): unknown {
+    if (!(error instanceof multer.MulterError)) return error;
+
+    if (error.code === 'LIMIT_FILE_SIZE') {
+        return new PayloadTooLargeError(`Files may be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`);
+    }
+    return new ValidationError(error.field ? `${error.message}: ${error.field}` : error.message);
+}
+
+// Check every uploaded file is an allowed image within the limits, then turn
+// it upright and strip its metadata (see sanitizeImage). The file's buffer
+// and mimetype are replaced with the sanitized ones.
+async function sanitizeUploads(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+        const keepColorProfile = keepsColorProfile(req);
+        const files = Object.entries((req.files ?? {}) as Record<string, Express.Multer.File[]>);
+
+        for (const [field, fieldFiles] of files) {
+            for (const file of fieldFiles) {
+                const label = FIELD_LABELS[field] ?? (fieldFiles.length > 1 ? `Image "${file.originalname}"` : 'Image');
+                const image = await sanitizeImage(file.buffer, { keepColorProfile, label });
+                file.buffer = image.buffer;
+                file.mimetype = image.contentType;
+                file.size = image.buffer.length;
+            }
+        }
+        next();
+    } catch (error) {
+        sendError(res, error, 'Failed to read upload');
+    }
+}
+
+// Refuse a request body over `maxBytes` before reading any of it. Node stops
+// reading a body at its Content-Length, so the declared length is a real bound;
+// bodies without one (chunked) aren't accepted.
+function checkTotalSize(req: express.Request, maxBytes: number): void {
+    const declared = req.headers['content-length'];
+    if (declared === undefined) {
+        throw new HttpError(411, 'The upload must declare a Content-Length', 'length_required');
+    }
+    if (Number(declared) > maxBytes) {
+        throw new PayloadTooLargeError(`Uploads may be at most ${Math.floor(maxBytes / (1024 * 1024))}MB in total`);
+    }
+}
+
+// Accept the given multipart file fields and sanitize their images. Files are
+// buffered in memory, so many-file fields should pass `maxTotalBytes`. The
+// callback is bound so the request's log context survives multer's stream
+// events.
+export function acceptImages(
+    fields: multer.Field[],
+    { maxTotalBytes }: { maxTotalBytes?: number } = {}
+): express.RequestHandler {
+    const parse = upload.fields(fields);
+    return (req, res, next) => {
+        try {
+            if (maxTotalBytes !== undefined) checkTotalSize(req, maxTotalBytes);
+        } catch (error) {
+            return sendError(res, error, 'Failed to read upload');
+        }
+
+        parse(req, res, AsyncResource.bind((error?: unknown) => {
+            if (error) return sendError(res, toUploadError(error), 'Failed to read upload');
+            sanitizeUploads(req, res, next);
+        }));
+    };
+}
+
+// The image plus an optional background image for the image background mode,
+// or an edited mask
+export const uploadFields = acceptImages([
+    { name: 'image', maxCount: 1 },
+    { name: 'backgroundImage', maxCount: 1 },
+    { name: 'mask', maxCount: 1 },
+]);
+
+// Uploaded file for a multer field, if any
+export function uploadedFile(req: express.Request, field: string): Express.Multer.File | undefined {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    return files?.[field]?.[0];
+}
+
+// How to process an image, shared by every image in a batch
+export interface ProcessingSettings {
+    operations: PipelineOperation[];
+    output: OutputOptions;
+    backgroundImage?: Buffer;
+    retentionHours?: number;
+    callbackUrl?: string; // Gets a webhook with the outcome (see webhooks.ts)
+}
+
+// Everything needed to process one upload
+export interface ProcessingRequest extends ProcessingSettings {
+    imageBuffer: Buffer;
+    originalName: string;
+    contentType: string;
+    ownerKeyId?: string | null;
+}
+
+// Validate the pipeline, output, retention and callback fields of a request.
+// The optional `expiresIn` field is hours to keep the image instead of the
+// default; `callbackUrl` is only checked for shape here, and its address when
+// a webhook is sent.
+export function parseProcessingSettings(req: express.Request): ProcessingSettings {
+    const fields = parseRequest(processingSettingsSchema, req.body);
+    const operations = parseOperations(fields.operations);
+    const output = parseOutputOptions(fields);
+    const backgroundImage = uploadedFile(req, 'backgroundImage')?.buffer;
+    if (needsBackgroundImage(operations) && !backgroundImage) {
+        throw new ValidationError('A backgroundImage file is required for the image background mode');
+    }
+
+    const callbackUrl = fields.callbackUrl === undefined ? undefined : parseHttpUrl(fields.callbackUrl, 'callbackUrl').href;
+
+    return { operations, output, backgroundImage, retentionHours: fields.expiresIn, callbackUrl };
+}
+
+// Validate an upload request before doing any work
+export function parseProcessingRequest(req: express.Request): ProcessingRequest {
+    const imageFile = uploadedFile(req, 'image');
+    if (!imageFile) {
+        throw new ValidationError('No image file provided');
+    }
+
+    return {
+        ...parseProcessingSettings(req),
+        imageBuffer: imageFile.buffer,
+        originalName: imageFile.originalname,
+        contentType: imageFile.mimetype,
+    };
+}
+
+// Like parseProcessingRequest, but the image may also be given as a `url` to
+// import it from instead of a file
+export async function readProcessingRequest(req: express.Request): Promise<ProcessingRequest> {
+    const { url } = parseRequest(processingFieldsSchema, req.body);
+    if (url === undefined) {
+        return parseProcessingRequest(req);
+    }
+    if (uploadedFile(req, 'image')) {
+        throw new ValidationError('Provide either an image file or a url, not both');
+    }
+
+    // Validate the settings before downloading anything
+    const settings = parseProcessingSettings(req);
+    const remote = await fetchRemoteImage(url);
+    const image = await sanitizeImage(remote.buffer, { keepColorProfile: keepsColorProfile(req) });
+
+    return {
+        ...settings,
+        imageBuffer: image.buffer,
+        originalName: remote.originalName,
+        contentType: image.contentType,
+    };
+}
@@ -0,0 +1,456 @@
+import http from 'http';
+import https from 'https';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { uploadImage, readImage, deleteImage, fileExists, listFiles } from './storage.js';
+import { parseHttpUrl, pinnedLookup, resolvePublicAddress, type ResolvedAddress } from './publicUrls.js';
+import { findApiKeyById } from './apiKeys.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { errorBody, ValidationError } from './errors.js';
+import { viewUrl } from './shareLinks.js';
+import { isServerless } from './runtime.js';
+import { logger } from './logger.js';
+import { webhookDeliveries } from './metrics.js';
+import type { ProcessingHooks } from './processing.js';
+import type {
+    ProcessingResult,
+    ProcessingStage,
+    WebhookAttempt,
+    WebhookDelivery,
+    WebhookDeliveryList,
+    WebhookDeliveryStatus,
+    WebhookPayload,
+    WebhookTimings,
+} from './apiTypes.js';
+
+export type {
+    WebhookAttempt,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+    WebhookEvent,
+    WebhookPayload,
+    WebhookTimings,
+} from './apiTypes.js';
+
+// Webhook callbacks: a signed JSON POST to the caller's callback URL when an
+// image has been processed or has failed. Every delivery is logged to storage
+// under webhooks/deliveries/, failed attempts are retried with exponential
+// backoff, and a delivery can be replayed later. Retries wait on timers in
+// this process; the sweeper picks up the ones a restart left behind.
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5;
+const RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS) || 10000; // Four times longer after each failure
+const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000;
+const LOG_RETENTION_DAYS = Number(process.env.WEBHOOK_LOG_RETENTION_DAYS) || 7;
+const MAX_RESPONSE_CHARS = 1024;
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const LIST_CONCURRENCY = 10;
+
+// Where a delivery goes, and what to say about the image it reports on
+export interface CallbackTarget {
+    url?: string | null;
+    ownerKeyId: string | null;
+    imageId?: string;
+    originalName?: string;
+    jobId?: string;
+    batchId?: string;
+}
+
+// Deliveries with an attempt running or waiting in this process
+const scheduled = new Set<string>();
+let warnedUnsigned = false;
+
+// Callback URLs must be public unless WEBHOOK_ALLOW_PRIVATE_URLS=true, which
+// is meant for a receiver on the same machine during development
+function allowsPrivateUrls(): boolean {
+    return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+}
+
+function deliveryFileName(deliveryId: string): string {
+    return `webhooks/deliveries/${deliveryId}.json`;
+}
+
+async function saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await uploadImage(Buffer.from(JSON.stringify(delivery)), deliveryFileName(delivery.deliveryId), 'application/json');
+}
+
+async function loadDelivery(fileName: string): Promise<WebhookDelivery> {
+    return JSON.parse((await readImage(fileName)).toString('utf8')) as WebhookDelivery;
+}
+
+// Payloads are signed with the API key's webhook secret, or WEBHOOK_SECRET
+// for requests without a key. Without either they go out unsigned.
+async function signingSecret(ownerKeyId: string | null): Promise<string | null> {
+    if (ownerKeyId) {
+        const record = await findApiKeyById(ownerKeyId);
+        if (record?.webhookSecret) return record.webhookSecret;
+    }
+
+    const secret = process.env.WEBHOOK_SECRET || null;
+    if (!secret && !warnedUnsigned) {
+        logger.warn('WEBHOOK_SECRET is not set; webhooks for requests without an API key are sent unsigned');
+        warnedUnsigned = true;
+    }
+    return secret;
+}
+
+// Hex HMAC-SHA256 of `<timestamp>.<body>`, sent as `X-Webhook-Signature: sha256=<hex>`
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Check a received webhook: the signature must match and the timestamp be
+// recent, so a captured request can't be replayed much later
+export function verifyWebhookSignature(
+    secret: string,
+    { signature, timestamp }: { signature?: string; timestamp?: string },
+    body: string
+): boolean {
+    const seconds = Number(timestamp);
+    if (!signature?.startsWith('sha256=') || !Number.isInteger(seconds)) return false;
+    if (Math.abs(Date.now() / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+    const expected = Buffer.from(signWebhook(secret, seconds, body));
+    const actual = Buffer.from(signature.slice('sha256='.length));
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// One POST pinned to an already checked address. Redirects are not followed.
+function post(
+    url: URL,
+    address: ResolvedAddress,
+    headers: Record<string, string>,
+    body: string,
+    signal: AbortSignal
+): Promise<{ statusCode: number; body: string }> {
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const req = client.request(url, {
+            method: 'POST',
+            signal,
+            headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+            lookup: pinnedLookup(address),
+        }, (res) => {
+            // Only the start of the response is kept for the log
+            const chunks: Buffer[] = [];
+            let size = 0;
+            res.on('data', (chunk: Buffer) => {
+                if (size < MAX_RESPONSE_CHARS) chunks.push(chunk);
+                size += chunk.length;
+            });
+            res.on('end', () => resolve({
+                statusCode: res.statusCode ?? 0,
+                body: Buffer.concat(chunks).toString('utf8').slice(0, MAX_RESPONSE_CHARS),
+            }));
+            res.on('error', reject);
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+// Make one attempt. Any 2xx response counts as delivered.
+async function send(delivery: WebhookDelivery): Promise<WebhookAttempt> {
+    const started = Date.now();
+    const attempt: WebhookAttempt = {
+        attemptedAt: new Date(started).toISOString(),
+        durationMs: 0,
+        statusCode: null,
+        error: null,
+        responseBody: null,
+    };
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(started / 1000);
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'background-remover-webhooks',
+        'X-Webhook-Id': delivery.deliveryId,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': String(timestamp),
+    };
+    const signal = AbortSignal.timeout(TIMEOUT_MS);
+
+    try {
+        const secret = await signingSecret(delivery.ownerKeyId);
+        if (secret) headers['X-Webhook-Signature'] = `sha256=${signWebhook(secret, timestamp, body)}`;
+
+        const url = parseHttpUrl(delivery.url, 'callbackUrl');
+        const address = await resolvePublicAddress(url, 'callbackUrl', allowsPrivateUrls());
+        const response = await post(url, address, headers, body, signal);
+
+        attempt.statusCode = response.statusCode;
+        attempt.responseBody = response.body || null;
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+            attempt.error = `The callback URL responded with HTTP ${response.statusCode}`;
+        }
+    } catch (error) {
+        attempt.error = signal.aborted
+            ? `The callback URL did not respond within ${TIMEOUT_MS / 1000}s`
+            : error instanceof Error ? error.message : 'Delivery failed';
+    }
+
+    attempt.durationMs = Date.now() - started;
+    return attempt;
+}
+
+// Retries wait in this process. Serverless functions are frozen once they
+// have answered, so there a retry only happens when the sweep resumes it.
+function schedule(delivery: WebhookDelivery, delayMs: number): void {
+    scheduled.add(delivery.deliveryId);
+    setTimeout(() => void attemptDelivery(delivery), delayMs).unref();
+}
+
+// Attempt a delivery, then log the outcome and wait for the next attempt
+// when it failed and has attempts left
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+    try {
+        const attempt = await send(delivery);
+        delivery.attempts.push(attempt);
+        delivery.updatedAt = new Date().toISOString();
+
+        let delayMs: number | null = null;
+        if (attempt.error === null) {
+            delivery.status = 'succeeded';
+        } else if (delivery.attempts.length >= MAX_ATTEMPTS) {
+            delivery.status = 'failed';
+        } else {
+            delayMs = RETRY_BASE_MS * 4 ** (delivery.attempts.length - 1);
+        }
+        delivery.nextAttemptAt = delayMs === null ? null : new Date(Date.now() + delayMs).toISOString();
+        webhookDeliveries.inc({ outcome: delayMs === null ? delivery.status : 'retrying' });
+
+        if (attempt.error) {
+            logger.warn('Webhook delivery failed', {
+                deliveryId: delivery.deliveryId,
+                attempt: delivery.attempts.length,
+                error: attempt.error,
+                nextAttemptAt: delivery.nextAttemptAt,
+            });
+        }
+
+        await saveDelivery(delivery);
+        if (delayMs === null) {
+            scheduled.delete(delivery.deliveryId);
+        } else {
+            schedule(delivery, delayMs);
+        }
+    } catch (error) {
+        // The log couldn't be written; the sweeper retries what it last saw
+        logger.error('Webhook delivery error', { deliveryId: delivery.deliveryId, error });
+        scheduled.delete(delivery.deliveryId);
+    }
+}
+
+// Log a new delivery and make its first attempt straight away
+async function startDelivery(
+    url: string,
+    ownerKeyId: string | null,
+    payload: WebhookPayload,
+    replayOf: string | null = null
+): Promise<WebhookDelivery> {
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+        deliveryId: uuidv4(),
+        ownerKeyId,
+        url,
+        event: payload.event,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+        nextAttemptAt: now,
+        replayOf,
+        attempts: [],
+        payload,
+    };
+
+    await saveDelivery(delivery);
+    schedule(delivery, 0);
+    return structuredClone(delivery);
+}
+
+// Run `process` with its stages timed, then send the outcome to the target's
+// callback URL, if it has one. The result or error is passed on unchanged;
+// cancelled work sends nothing.
+export async function withCallback(
+    target: CallbackTarget,
+    process: (hooks: ProcessingHooks) => Promise<ProcessingResult>,
+    hooks: ProcessingHooks = {}
+): Promise<ProcessingResult> {
+    const url = target.url;
+    if (!url) return process(hooks);
+
+    const startedAt = new Date();
+    const stages: WebhookTimings['stages'] = {};
+    let current: { stage: ProcessingStage; started: number } | null = null;
+    const endStage = () => {
+        if (!current) return;
+        stages[current.stage] = (stages[current.stage] ?? 0) + Date.now() - current.started;
+        current = null;
+    };
+
+    const queue = (payload: Pick<WebhookPayload, 'event' | 'imageId' | 'result' | 'error'>) => {
+        endStage();
+        const finishedAt = new Date();
+        void startDelivery(url, target.ownerKeyId, {
+            eventId: uuidv4(),
+            createdAt: finishedAt.toISOString(),
+            originalName: target.originalName ?? null,
+            jobId: target.jobId ?? null,
+            batchId: target.batchId ?? null,
+            ...payload,
+            timings: {
+                startedAt: startedAt.toISOString(),
+                finishedAt: finishedAt.toISOString(),
+                durationMs: finishedAt.getTime() - startedAt.getTime(),
+                stages,
+            },
+        }).catch((error) => {
+            logger.error('Webhook delivery error', { url, error });
+        });
+    };
+
+    try {
+        const result = await process({
+            ...hooks,
+            onStage: (stage) => {
+                if (current?.stage !== stage) {
+                    endStage();
+                    current = { stage, started: Date.now() };
+                }
+                hooks.onStage?.(stage);
+            },
+        });
+        queue({ event: 'image.processed', imageId: result.imageId, result, error: null });
+        return result;
+    } catch (error) {
+        if (!hooks.signal?.aborted) {
+            queue({
+                event: 'image.failed',
+                imageId: target.imageId ?? null,
+                result: null,
+                error: errorBody(error, 'Failed to process image'),
+            });
+        }
+        throw error;
+    }
+}
+
+// A delivery, if it exists and belongs to the API key (null when keys aren't in use)
+export async function getDelivery(deliveryId: string, ownerKeyId: string | null): Promise<WebhookDelivery | null> {
+    const fileName = deliveryFileName(deliveryId);
+    if (!(await fileExists(fileName))) return null;
+
+    const delivery = await loadDelivery(fileName);
+    return ownerKeyId === null || delivery.ownerKeyId === ownerKeyId ? delivery : null;
+}
+
+// Send a logged delivery's payload to the same URL again, as a new delivery.
+// The image links in it are signed afresh, since the old ones may have expired.
+export async function replayDelivery(deliveryId: string, ownerKeyId: string | null): Promise<WebhookDelivery | null> {
+    const original = await getDelivery(deliveryId, ownerKeyId);
+    if (!original) return null;
+
+    const { payload } = original;
+    const result = payload.result && {
+        ...payload.result,
+        originalUrl: viewUrl(payload.result.imageId, 'original'),
+        processedUrl: viewUrl(payload.result.imageId),
+    };
+    return startDelivery(original.url, original.ownerKeyId, { ...payload, result }, original.deliveryId);
+}
+
+async function listDeliveries(): Promise<WebhookDelivery[]> {
+    const fileNames = await listFiles('webhooks/deliveries/');
+    const loaded = await mapWithConcurrency(fileNames, LIST_CONCURRENCY, async (fileName) => {
+        try {
+            return await loadDelivery(fileName);
+        } catch (error) {
+            // Deleted since it was listed, or unreadable
+            logger.error('Webhook log read error', { fileName, error });
+            return null;
+        }
+    });
+    return loaded.filter((delivery): delivery is WebhookDelivery => delivery !== null);
+}
+
+// Where a page starts: just after the delivery the previous page ended with
+interface ListCursor {
+    createdAt: string;
+    deliveryId: string;
+}
+
+function encodeCursor({ createdAt, deliveryId }: WebhookDelivery): string {
+    const cursor: ListCursor = { createdAt, deliveryId };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(raw: string): ListCursor {
+    try {
+        const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')) as ListCursor;
+        if (typeof cursor.createdAt === 'string' && typeof cursor.deliveryId === 'string') return cursor;
+    } catch {
+        // Reported below
+    }
+    throw new ValidationError('cursor is not valid');
+}
+
+// Newest first, with the id breaking ties so pages never overlap
+function compareNewestFirst(a: ListCursor, b: ListCursor): number {
+    return b.createdAt.localeCompare(a.createdAt) || b.deliveryId.localeCompare(a.deliveryId);
+}
+
+// A page of an API key's deliveries (all of them for null), newest first,
+// optionally only those with a status or about one image
+export async function listWebhookDeliveries(
+    ownerKeyId: string | null,
+    { limit, cursor, status, imageId }: { limit: number; cursor?: string; status?: WebhookDeliveryStatus; imageId?: string }
+): Promise<WebhookDeliveryList> {
+    const after = cursor ? decodeCursor(cursor) : null;
+
+    const deliveries = (await listDeliveries())
+        .filter((delivery) => ownerKeyId === null || delivery.ownerKeyId === ownerKeyId)
+        .filter((delivery) => !status || delivery.status === status)
+        .filter((delivery) => !imageId || delivery.payload.imageId === imageId)
+        .sort(compareNewestFirst);
+
+    const start = after ? deliveries.findIndex((delivery) => compareNewestFirst(after, delivery) < 0) : 0;
+    const page = start === -1 ? [] : deliveries.slice(start, start + limit);
+    const hasMore = start !== -1 && start + limit < deliveries.length;
+
+    return {
+        deliveries: page,
+        total: deliveries.length,
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    };
+}
+
+// Resume pending deliveries that are due but not waiting in this process (a
+// restart dropped their timer, or another instance logged them), and delete
+// finished ones older than WEBHOOK_LOG_RETENTION_DAYS (default 7)
+export async function sweepWebhookDeliveries(): Promise<{ removed: number; resumed: number }> {
+    const cutoff = Date.now() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    let removed = 0;
+    let resumed = 0;
+
+    for (const delivery of await listDeliveries()) {
+        if (delivery.status === 'pending') {
+            const due = !delivery.nextAttemptAt || Date.parse(delivery.nextAttemptAt) <= Date.now();
+            if (due && !scheduled.has(delivery.deliveryId)) {
+                // A serverless function would be frozen before a timer fired
+                if (isServerless) {
+                    await attemptDelivery(delivery);
+                } else {
+                    schedule(delivery, 0);
+                }
+                resumed++;
+            }
+        } else if (Date.parse(delivery.updatedAt) < cutoff) {
+            await deleteImage(deliveryFileName(delivery.deliveryId));
+            removed++;
+        }
+    }
+
+    return { removed, resumed };
+}
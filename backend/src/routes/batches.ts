@@ -0,0 +1,133 @@
+import { Router } from 'express';
+import archiver from 'archiver';
+import { validate as isUuid } from 'uuid';
+import { acceptImages, parseProcessingSettings } from '../lib/uploads.js';
+import { createBatch, getBatch } from '../lib/batches.js';
+import { contentDisposition, processedFileName } from '../lib/images.js';
+import { readImage, fileExists } from '../lib/storage.js';
+import { OUTPUT_FORMATS } from '../lib/imageProcessor.js';
+import { sendError, GoneError, ValidationError } from '../lib/errors.js';
+import { chargeQuota, requestCallbackUrl, requestOwner } from '../lib/auth.js';
+import { requireLongRunningServer } from '../lib/runtime.js';
+import { logger } from '../lib/logger.js';
+import type { CreatedBatch } from '../lib/apiTypes.js';
+
+const router = Router();
+
+// Batch files are processed after the response is sent
+router.use(requireLongRunningServer('Batches'));
+
+const MAX_BATCH_SIZE = Number(process.env.MAX_BATCH_SIZE) || 200;
+// Every file is held in memory until the batch is stored, so the whole
+// request is capped too, well below MAX_BATCH_SIZE full-size files
+const MAX_BATCH_BYTES = Number(process.env.MAX_BATCH_BYTES) || 200 * 1024 * 1024;
+
+const batchFields = acceptImages([
+    { name: 'images', maxCount: MAX_BATCH_SIZE },
+    { name: 'backgroundImage', maxCount: 1 },
+], { maxTotalBytes: MAX_BATCH_BYTES });
+
+// Upload many images processed with the same settings
+router.post('/', batchFields, async (req, res) => {
+    try {
+        const files = (req.files as Record<string, Express.Multer.File[]> | undefined)?.images ?? [];
+        if (files.length === 0) {
+            throw new ValidationError('No image files provided');
+        }
+
+        const settings = parseProcessingSettings(req);
+        chargeQuota(res, files.length);
+        const batch = await createBatch(
+            files.map((file) => ({
+                buffer: file.buffer,
+                originalName: file.originalname,
+                contentType: file.mimetype,
+            })),
+            { ...settings, callbackUrl: requestCallbackUrl(res, settings.callbackUrl) },
+            requestOwner(res)
+        );
+
+        res.status(202).json({
+            ...batch,
+            statusUrl: `/api/batches/${batch.batchId}`,
+            zipUrl: `/api/batches/${batch.batchId}/zip`,
+        } satisfies CreatedBatch);
+    } catch (error) {
+        logger.error('Create batch error', { error });
+        sendError(res, error, 'Failed to create batch');
+    }
+});
+
+// Batch progress and per-file results
+router.get('/:id', async (req, res) => {
+    try {
+        const batch = isUuid(req.params.id) ? await getBatch(req.params.id, requestOwner(res)) : null;
+        if (!batch) {
+            return res.status(404).json({ error: 'Batch not found' });
+        }
+
+        res.json(batch);
+    } catch (error) {
+        logger.error('Get batch error', { error });
+        sendError(res, error, 'Failed to get batch');
+    }
+});
+
+// Stream every successfully processed image of the batch as one ZIP
+router.get('/:id/zip', async (req, res) => {
+    try {
+        const batch = isUuid(req.params.id) ? await getBatch(req.params.id, requestOwner(res)) : null;
+        if (!batch) {
+            return res.status(404).json({ error: 'Batch not found' });
+        }
+
+        const succeeded = batch.items.filter((item) => item.status === 'succeeded');
+        if (succeeded.length === 0) {
+            return res.status(409).json({ error: 'No processed images in this batch yet' });
+        }
+
+        // Leave out images that have expired since
+        const stillStored = await Promise.all(
+            succeeded.map((item) => fileExists(processedFileName(item.imageId!, item.format!)))
+        );
+        const items = succeeded.filter((_item, index) => stillStored[index]);
+        if (items.length === 0) {
+            throw new GoneError('The images in this batch have expired');
+        }
+
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', contentDisposition('attachment', `batch-${batch.batchId}.zip`));
+
+        const archive = archiver('zip', { store: true }); // Images are already compressed
+        archive.on('error', (error) => {
+            logger.error('Batch ZIP error', { error });
+            res.destroy(error);
+        });
+        archive.pipe(res);
+
+        // Same naming as /api/download, numbered when names collide
+        const usedNames = new Set<string>();
+        for (const item of items) {
+            const { extension } = OUTPUT_FORMATS[item.format!];
+            const baseName = item.originalName.replace(/\.[^/.]+$/, '') || 'image';
+            let name = `${baseName}-processed.${extension}`;
+            for (let n = 2; usedNames.has(name); n++) {
+                name = `${baseName}-processed-${n}.${extension}`;
+            }
+            usedNames.add(name);
+
+            archive.append(await readImage(processedFileName(item.imageId!, item.format!)), { name });
+        }
+
+        await archive.finalize();
+    } catch (error) {
+        logger.error('Batch ZIP error', { error });
+        if (res.headersSent) {
+            res.destroy();
+        } else {
+            sendError(res, error, 'Failed to build ZIP');
+        }
+    }
+});
+
+export default router;
@@ -0,0 +1,385 @@
+import { Router } from 'express';
+import {
+    convertToPng,
+    extractMask,
+    parseBackgroundFill,
+    replaceBackground,
+    parseOutputOptions,
+    DEFAULT_OUTPUT,
+    OUTPUT_FORMATS,
+} from '../lib/imageProcessor.js';
+import {
+    cutoutFileName,
+    findProcessedImage,
+    getImageRecord,
+    saveImageRecord,
+    deleteImageFiles,
+    recordExpiresAt,
+    isOwnedBy,
+    processedDownloadName,
+    maskDownloadName,
+    contentDisposition,
+    listImages,
+} from '../lib/images.js';
+import { uploadImage, fileExists, readImage } from '../lib/storage.js';
+import { viewUrl, createShareLink } from '../lib/shareLinks.js';
+import { uploadFields, uploadedFile, readProcessingRequest, parseProcessingSettings } from '../lib/uploads.js';
+import { processImage, reprocessImage, replaceMask, storeProcessedImage } from '../lib/processing.js';
+import { sendError, NotFoundError, ValidationError } from '../lib/errors.js';
+import { chargeQuota, requestCallbackUrl, requestOwner } from '../lib/auth.js';
+import { withCallback } from '../lib/webhooks.js';
+import { logger } from '../lib/logger.js';
+import {
+    parseRequest,
+    backgroundFieldsSchema,
+    deleteQuerySchema,
+    downloadQuerySchema,
+    listImagesQuerySchema,
+    maskQuerySchema,
+    shareLinkRequestSchema,
+} from '../lib/apiSchemas.js';
+import type {
+    BackgroundResponse,
+    DeleteResponse,
+    ImageDetails,
+    ImageList,
+    ProcessingResponse,
+} from '../lib/apiTypes.js';
+
+const router = Router();
+
+// Upload and process image, sent as a file or a url to import it from
+router.post('/upload', uploadFields, async (req, res) => {
+    try {
+        // Validate the request before doing any work
+        const request = await readProcessingRequest(req);
+        chargeQuota(res);
+
+        const ownerKeyId = requestOwner(res);
+        const result = await withCallback(
+            { url: requestCallbackUrl(res, request.callbackUrl), ownerKeyId, originalName: request.originalName },
+            (hooks) => processImage({ ...request, ownerKeyId }, hooks)
+        );
+
+        res.json({
+            success: true,
+            ...result,
+            message: 'Image processed successfully',
+        } satisfies ProcessingResponse);
+    } catch (error) {
+        logger.error('Upload error', { error });
+        sendError(res, error, 'Failed to process image');
+    }
+});
+
+// Download processed image
+router.get('/download/:id', async (req, res) => {
+    try {
+        const imageId = req.params.id;
+
+        const [record, processed] = await Promise.all([
+            getImageRecord(imageId),
+            findProcessedImage(imageId),
+        ]);
+        if (!processed || !isOwnedBy(record, requestOwner(res))) {
+            return res.status(404).json({ error: 'Image not found' });
+        }
+
+        const buffer = await readImage(processed.fileName);
+        const { extension, contentType } = OUTPUT_FORMATS[processed.format];
+
+        // Determine filename, falling back to the name it was uploaded with
+        const { filename } = parseRequest(downloadQuerySchema, req.query);
+        const queryName = filename || record?.original.originalName;
+        const downloadName = processedDownloadName(imageId, extension, queryName);
+
+        // Set headers for download
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Disposition', contentDisposition('attachment', downloadName));
+        res.send(buffer);
+    } catch (error) {
+        logger.error('Download error', { error });
+        sendError(res, error, 'Failed to download image');
+    }
+});
+
+// Download the alpha mask as a grayscale PNG: by default the mask of the final
+// result, or with source=removal the raw mask background removal produced
+router.get('/images/:id/mask', async (req, res) => {
+    try {
+        const imageId = req.params.id;
+        const { source } = parseRequest(maskQuerySchema, req.query);
+
+        const [record, processed] = await Promise.all([
+            getImageRecord(imageId),
+            findProcessedImage(imageId),
+        ]);
+        if (!processed || !isOwnedBy(record, requestOwner(res))) {
+            return res.status(404).json({ error: 'Image not found' });
+        }
+
+        let mask: Buffer;
+        if (source === 'removal') {
+            if (!record?.maskFileName || !(await fileExists(record.maskFileName))) {
+                return res.status(404).json({ error: 'Image has no background removal mask' });
+            }
+            mask = await readImage(record.maskFileName);
+        } else {
+            // JPEG results have no alpha, but keep their cutout
+            const hasCutout = await fileExists(cutoutFileName(imageId));
+            mask = await extractMask(await readImage(hasCutout ? cutoutFileName(imageId) : processed.fileName));
+        }
+
+        const downloadName = maskDownloadName(imageId, record?.original.originalName);
+        res.setHeader('Content-Type', 'image/png');
+        res.setHeader('Content-Disposition', contentDisposition('attachment', downloadName));
+        res.send(mask);
+    } catch (error) {
+        logger.error('Mask download error', { error });
+        sendError(res, error, 'Failed to download mask');
+    }
+});
+
+// Replace the removal mask with an edited one and re-composite the image
+router.put('/images/:id/mask', uploadFields, async (req, res) => {
+    try {
+        const maskFile = uploadedFile(req, 'mask');
+        if (!maskFile) {
+            throw new ValidationError('A mask file is required');
+        }
+
+        const record = await getImageRecord(req.params.id);
+        if (!record || !isOwnedBy(record, requestOwner(res))) {
+            throw new NotFoundError('Image not found');
+        }
+
+        const result = await replaceMask(req.params.id, maskFile.buffer, uploadedFile(req, 'backgroundImage')?.buffer);
+
+        res.json({
+            success: true,
+            ...result,
+            message: 'Mask updated successfully',
+        } satisfies ProcessingResponse);
+    } catch (error) {
+        logger.error('Mask update error', { error });
+        sendError(res, error, 'Failed to update mask');
+    }
+});
+
+// Delete processed image from storage
+router.delete('/delete', async (req, res) => {
+    try {
+        const { imageId } = parseRequest(deleteQuerySchema, req.query);
+
+        const [record, processed] = await Promise.all([
+            getImageRecord(imageId),
+            findProcessedImage(imageId),
+        ]);
+
+        if ((!record && !processed) || !isOwnedBy(record, requestOwner(res))) {
+            return res.status(404).json({ error: 'Image not found' });
+        }
+
+        // Original, processed image, cutout and sidecar record
+        await deleteImageFiles(imageId, record);
+
+        res.json({ success: true, message: 'Image deleted successfully' } satisfies DeleteResponse);
+    } catch (error) {
+        logger.error('Delete error', { error });
+        sendError(res, error, 'Failed to delete image');
+    }
+});
+
+// Replace the background of a processed image. The first replacement keeps a
+// copy of the transparent cutout so the background can be changed again later.
+router.post('/images/:id/background', uploadFields, async (req, res) => {
+    try {
+        const imageId = req.params.id;
+
+        // fill=none restores the transparent cutout
+        const fields = parseRequest(backgroundFieldsSchema, req.body);
+        const fill = fields.fill === 'none' ? null : parseBackgroundFill(fields.fill);
+        const backgroundImage = uploadedFile(req, 'backgroundImage')?.buffer;
+        if (fill?.mode === 'image' && !backgroundImage) {
+            return res.status(400).json({ error: 'A backgroundImage file is required for the image background mode' });
+        }
+
+        const [record, processed] = await Promise.all([
+            getImageRecord(imageId),
+            findProcessedImage(imageId),
+        ]);
+        if (!processed || !isOwnedBy(record, requestOwner(res))) {
+            return res.status(404).json({ error: 'Image not found' });
+        }
+
+        // Keep the current output settings unless the request asks for others
+        const output = parseOutputOptions(fields, record?.output ?? { ...DEFAULT_OUTPUT, format: processed.format });
+
+        let cutoutBuffer: Buffer;
+        if (await fileExists(cutoutFileName(imageId))) {
+            cutoutBuffer = await readImage(cutoutFileName(imageId));
+        } else {
+            cutoutBuffer = await convertToPng(await readImage(processed.fileName));
+            await uploadImage(cutoutBuffer, cutoutFileName(imageId), 'image/png');
+        }
+
+        const resultBuffer = fill
+            ? await replaceBackground(cutoutBuffer, fill, backgroundImage)
+            : cutoutBuffer;
+        const { processed: stored, processedUrl } = await storeProcessedImage(
+            imageId,
+            resultBuffer,
+            output,
+            processed.fileName
+        );
+
+        if (record) {
+            await saveImageRecord({
+                ...record,
+                updatedAt: new Date().toISOString(),
+                processed: stored,
+                output,
+                cutoutFileName: cutoutFileName(imageId),
+            });
+        }
+
+        res.json({
+            success: true,
+            imageId,
+            processedUrl,
+            format: output.format,
+            background: fill,
+        } satisfies BackgroundResponse);
+    } catch (error) {
+        logger.error('Replace background error', { error });
+        sendError(res, error, 'Failed to replace background');
+    }
+});
+
+// Run different settings on the stored original, without a re-upload
+router.post('/images/:id/reprocess', uploadFields, async (req, res) => {
+    try {
+        const settings = parseProcessingSettings(req);
+        if (!isOwnedBy(await getImageRecord(req.params.id), requestOwner(res))) {
+            throw new NotFoundError('Image not found');
+        }
+
+        chargeQuota(res);
+        const result = await withCallback(
+            { url: requestCallbackUrl(res, settings.callbackUrl), ownerKeyId: requestOwner(res), imageId: req.params.id },
+            (hooks) => reprocessImage(req.params.id, settings, hooks)
+        );
+
+        res.json({
+            success: true,
+            ...result,
+            message: 'Image reprocessed successfully',
+        } satisfies ProcessingResponse);
+    } catch (error) {
+        logger.error('Reprocess error', { error });
+        sendError(res, error, 'Failed to reprocess image');
+    }
+});
+
+// Create a signed link to an image that works without an API key
+router.post('/images/:id/share', uploadFields, async (req, res) => {
+    try {
+        const imageId = req.params.id;
+
+        const { expiresIn, file, singleUse, downloadOnly } = parseRequest(shareLinkRequestSchema, req.body);
+
+        const [record, processed] = await Promise.all([
+            getImageRecord(imageId),
+            findProcessedImage(imageId),
+        ]);
+        if (!processed || !isOwnedBy(record, requestOwner(res)) || (file === 'original' && !record)) {
+            return res.status(404).json({ error: 'Image not found' });
+        }
+
+        res.status(201).json(createShareLink(imageId, { file, expiresIn, singleUse, downloadOnly }));
+    } catch (error) {
+        logger.error('Share link error', { error });
+        sendError(res, error, 'Failed to create share link');
+    }
+});
+
+// List processed images, newest first. Pass the returned nextCursor as
+// `cursor` for the next page.
+router.get('/images', async (req, res) => {
+    try {
+        const { limit, cursor } = parseRequest(listImagesQuerySchema, req.query);
+        const page = await listImages(requestOwner(res), { limit, cursor });
+
+        res.json({
+            images: page.records.map((record) => ({
+                imageId: record.imageId,
+                originalName: record.original.originalName,
+                createdAt: record.createdAt,
+                updatedAt: record.updatedAt,
+                expiresAt: recordExpiresAt(record),
+                format: record.processed.format,
+                size: record.processed.size,
+                width: record.processed.width,
+                height: record.processed.height,
+                processedUrl: viewUrl(record.imageId),
+                thumbnailUrl: record.processed.thumbnailFileName ? viewUrl(record.imageId, 'thumbnail') : null,
+            })),
+            total: page.total,
+            nextCursor: page.nextCursor,
+        } satisfies ImageList);
+    } catch (error) {
+        logger.error('List images error', { error });
+        sendError(res, error, 'Failed to list images');
+    }
+});
+
+// Get image URLs and metadata
+router.get('/images/:id', async (req, res) => {
+    try {
+        const imageId = req.params.id;
+
+        if (!imageId) {
+            return res.status(400).json({ error: 'Image ID is required' });
+        }
+
+        const record = await getImageRecord(imageId);
+        if (!isOwnedBy(record, requestOwner(res))) {
+            return res.status(404).json({ error: 'Image not found' });
+        }
+
+        if (record) {
+            return res.json({
+                imageId,
+                originalUrl: viewUrl(imageId, 'original'),
+                processedUrl: viewUrl(imageId),
+                format: record.processed.format,
+                createdAt: record.createdAt,
+                updatedAt: record.updatedAt,
+                original: record.original,
+                processed: record.processed,
+                operations: record.operations,
+                output: record.output,
+                expiresAt: recordExpiresAt(record),
+            } satisfies ImageDetails);
+        }
+
+        // Images stored before sidecar records have no original
+        const processed = await findProcessedImage(imageId);
+        if (!processed) {
+            return res.status(404).json({ error: 'Image not found' });
+        }
+
+        res.json({
+            imageId,
+            originalUrl: null,
+            processedUrl: viewUrl(imageId),
+            format: processed.format,
+            expiresAt: null,
+        } satisfies ImageDetails);
+    } catch (error) {
+        logger.error('Get image error', { error });
+        sendError(res, error, 'Failed to get image');
+    }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { uploadFields, readProcessingRequest } from '../lib/uploads.js';
+import { createJob, getJob, cancelJob, subscribeToJob, isFinished, type JobSnapshot } from '../lib/jobs.js';
+import { sendError } from '../lib/errors.js';
+import { requireLongRunningServer } from '../lib/runtime.js';
+import { chargeQuota, requestCallbackUrl, requestOwner, streamUrl } from '../lib/auth.js';
+import { logger } from '../lib/logger.js';
+import type { CreatedJob } from '../lib/apiTypes.js';
+
+const router = Router();
+
+const HEARTBEAT_MS = 15000;
+
+// Jobs live in this process's memory and run after the response is sent
+router.use(requireLongRunningServer('Background jobs'));
+
+// Start processing an upload in the background; an image given as a url is
+// downloaded before the job is queued
+router.post('/', uploadFields, async (req, res) => {
+    try {
+        // Validate the request before queueing it
+        const request = await readProcessingRequest(req);
+        chargeQuota(res);
+        const job = createJob({
+            ...request,
+            ownerKeyId: requestOwner(res),
+            callbackUrl: requestCallbackUrl(res, request.callbackUrl),
+        });
+
+        res.status(202).json({
+            ...job,
+            statusUrl: `/api/jobs/${job.jobId}`,
+            eventsUrl: streamUrl(res, `/api/jobs/${job.jobId}/events`),
+        } satisfies CreatedJob);
+    } catch (error) {
+        logger.error('Create job error', { error });
+        sendError(res, error, 'Failed to create job');
+    }
+});
+
+// Poll job status
+router.get('/:id', (req, res) => {
+    const job = getJob(req.params.id, requestOwner(res));
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+});
+
+// Stream stage changes as server-sent events until the job finishes
+router.get('/:id/events', (req, res) => {
+    const job = getJob(req.params.id, requestOwner(res));
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+    });
+
+    const send = (snapshot: JobSnapshot) => {
+        res.write(`event: ${snapshot.stage}\ndata: ${JSON.stringify(snapshot)}\n\n`);
+        if (isFinished(snapshot.stage)) {
+            cleanup();
+            res.end();
+        }
+    };
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+    const unsubscribe = subscribeToJob(job.jobId, send);
+    const cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    };
+
+    req.on('close', cleanup);
+    send(job);
+});
+
+// Cancel a queued or running job
+router.delete('/:id', (req, res) => {
+    const job = cancelJob(req.params.id, requestOwner(res));
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+});
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { sweepExpiredImages } from '../lib/sweeper.js';
+import { sendError } from '../lib/errors.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+
+// Constant-time check of the `Authorization: Bearer <CRON_SECRET>` header
+function isAuthorized(header: string | undefined): boolean {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || !header) return false;
+
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const actual = Buffer.from(header);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Delete expired images. A GET so Vercel Cron can call it.
+router.get('/sweep', async (req, res) => {
+    if (!isAuthorized(req.headers.authorization)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    try {
+        res.json(await sweepExpiredImages());
+    } catch (error) {
+        logger.error('Sweep error', { error });
+        sendError(res, error, 'Failed to sweep expired images');
+    }
+});
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { renderMetrics } from '../lib/metrics.js';
+
+const router = Router();
+
+// With METRICS_TOKEN set, scrapers must send `Authorization: Bearer <token>`
+function isAuthorized(header: string | undefined): boolean {
+    const token = process.env.METRICS_TOKEN;
+    if (!token) return true;
+    if (!header) return false;
+
+    const expected = Buffer.from(`Bearer ${token}`);
+    const actual = Buffer.from(header);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Counters and histograms in the Prometheus text format
+router.get('/', (req, res) => {
+    if (!isAuthorized(req.headers.authorization)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(renderMetrics());
+});
+
+export default router;
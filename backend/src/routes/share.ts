@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { verifyShareToken, consumeShareToken } from '../lib/shareLinks.js';
+import { getImageRecord, findProcessedImage, processedDownloadName, contentDisposition } from '../lib/images.js';
+import { readImage } from '../lib/storage.js';
+import { OUTPUT_FORMATS } from '../lib/imageProcessor.js';
+import { sendError } from '../lib/errors.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+
+// Serve the file a signed link points to. The signature is the only check,
+// so these links work without an API key.
+router.get('/:token', async (req, res) => {
+    try {
+        const link = verifyShareToken(req.params.token);
+
+        const [record, processed] = await Promise.all([
+            getImageRecord(link.imageId),
+            findProcessedImage(link.imageId),
+        ]);
+
+        let fileName: string;
+        let contentType: string;
+        let downloadName: string;
+        if (link.file === 'original') {
+            if (!record) {
+                return res.status(404).json({ error: 'Image not found' });
+            }
+            fileName = record.original.fileName;
+            contentType = record.original.contentType;
+            downloadName = record.original.originalName;
+        } else if (link.file === 'thumbnail') {
+            if (!record?.processed.thumbnailFileName) {
+                return res.status(404).json({ error: 'Image has no thumbnail' });
+            }
+            fileName = record.processed.thumbnailFileName;
+            contentType = 'image/webp';
+            downloadName = `thumbnail-${link.imageId}.webp`;
+        } else {
+            if (!processed) {
+                return res.status(404).json({ error: 'Image not found' });
+            }
+            const { extension, contentType: processedType } = OUTPUT_FORMATS[processed.format];
+            fileName = processed.fileName;
+            contentType = processedType;
+            downloadName = processedDownloadName(link.imageId, extension, record?.original.originalName);
+        }
+
+        const buffer = await readImage(fileName);
+        if (link.singleUse) {
+            await consumeShareToken(link);
+        }
+
+        const disposition = link.downloadOnly ? 'attachment' : 'inline';
+        const maxAge = Math.max(link.expiresAt - Math.floor(Date.now() / 1000), 0);
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Disposition', contentDisposition(disposition, downloadName));
+        res.setHeader('Cache-Control', link.singleUse ? 'no-store' : `private, max-age=${maxAge}`);
+        res.send(buffer);
+    } catch (error) {
+        logger.error('Share link error', { error });
+        sendError(res, error, 'Failed to open share link');
+    }
+});
+
+export default router;
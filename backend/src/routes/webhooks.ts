@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { validate as isUuid } from 'uuid';
+import { getDelivery, listWebhookDeliveries, replayDelivery } from '../lib/webhooks.js';
+import { parseRequest, listWebhookDeliveriesQuerySchema } from '../lib/apiSchemas.js';
+import { sendError } from '../lib/errors.js';
+import { requestOwner } from '../lib/auth.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+
+// Webhook deliveries, newest first, with every attempt and its response
+router.get('/deliveries', async (req, res) => {
+    try {
+        const query = parseRequest(listWebhookDeliveriesQuerySchema, req.query);
+        res.json(await listWebhookDeliveries(requestOwner(res), query));
+    } catch (error) {
+        logger.error('List webhook deliveries error', { error });
+        sendError(res, error, 'Failed to list webhook deliveries');
+    }
+});
+
+router.get('/deliveries/:id', async (req, res) => {
+    try {
+        const delivery = isUuid(req.params.id) ? await getDelivery(req.params.id, requestOwner(res)) : null;
+        if (!delivery) {
+            return res.status(404).json({ error: 'Delivery not found' });
+        }
+
+        res.json(delivery);
+    } catch (error) {
+        logger.error('Get webhook delivery error', { error });
+        sendError(res, error, 'Failed to get webhook delivery');
+    }
+});
+
+// Send a delivery's payload again, as a new delivery to the same URL
+router.post('/deliveries/:id/replay', async (req, res) => {
+    try {
+        const delivery = isUuid(req.params.id) ? await replayDelivery(req.params.id, requestOwner(res)) : null;
+        if (!delivery) {
+            return res.status(404).json({ error: 'Delivery not found' });
+        }
+
+        res.status(202).json(delivery);
+    } catch (error) {
+        logger.error('Replay webhook delivery error', { error });
+        sendError(res, error, 'Failed to replay webhook delivery');
+    }
+});
+
+export default router;
@@ -0,0 +1,114 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { issueApiKey, revokeApiKey, listApiKeys, getApiKeyStore, updateWebhookSettings } from '../lib/apiKeys.js';
+import { parseHttpUrl } from '../lib/publicUrls.js';
+
+// Admin command for API keys:
+//   npm run api-keys -- issue <name> [--rate-limit <requests/min>] [--daily-quota <images/day>] [--callback-url <url>]
+//   npm run api-keys -- webhook <id> [--callback-url <url> | --clear] [--rotate-secret]
+//   npm run api-keys -- revoke <id>
+//   npm run api-keys -- list
+
+const USAGE = `Usage:
+  npm run api-keys -- issue <name> [--rate-limit <requests/min>] [--daily-quota <images/day>] [--callback-url <url>]
+  npm run api-keys -- webhook <id> [--callback-url <url> | --clear] [--rotate-secret]
+  npm run api-keys -- revoke <id>
+  npm run api-keys -- list`;
+
+function parseLimit(value: string | undefined, option: string): number | null {
+    if (value === undefined) return null;
+
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`--${option} must be a positive whole number`);
+    }
+    return limit;
+}
+
+function parseCallbackUrl(value: string | undefined): string | null {
+    return value === undefined ? null : parseHttpUrl(value, '--callback-url').href;
+}
+
+async function main(): Promise<void> {
+    const { positionals, values } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'rate-limit': { type: 'string' },
+            'daily-quota': { type: 'string' },
+            'callback-url': { type: 'string' },
+            clear: { type: 'boolean' },
+            'rotate-secret': { type: 'boolean' },
+        },
+    });
+    const [command, argument] = positionals;
+
+    if (getApiKeyStore().name === 'memory') {
+        throw new Error('The memory key store lives inside the server; use API_KEY_STORE=file to manage keys');
+    }
+
+    switch (command) {
+        case 'issue': {
+            if (!argument) throw new Error(USAGE);
+
+            const { key, record } = await issueApiKey(argument, {
+                rateLimitPerMinute: parseLimit(values['rate-limit'], 'rate-limit'),
+                dailyQuota: parseLimit(values['daily-quota'], 'daily-quota'),
+                callbackUrl: parseCallbackUrl(values['callback-url']),
+            });
+            console.log(`Issued key ${record.id} for "${record.name}":\n\n  ${key}\n\nIt is not stored anywhere, so copy it now.`);
+            console.log(`Webhooks for this key are signed with ${record.webhookSecret}`);
+            break;
+        }
+
+        // Set or clear the default callback URL; without options, show the
+        // webhook settings (and create a secret for keys issued before webhooks)
+        case 'webhook': {
+            if (!argument) throw new Error(USAGE);
+            if (values.clear && values['callback-url']) throw new Error('Use either --callback-url or --clear');
+
+            const record = await updateWebhookSettings(argument, {
+                callbackUrl: values.clear ? null : parseCallbackUrl(values['callback-url']) ?? undefined,
+                rotateSecret: values['rotate-secret'],
+            });
+            if (!record) throw new Error(`No key with id ${argument}`);
+            console.log(`Key ${record.id} ("${record.name}")`);
+            console.log(`  Callback URL: ${record.callbackUrl ?? 'none'}`);
+            console.log(`  Signing secret: ${record.webhookSecret}`);
+            break;
+        }
+
+        case 'revoke': {
+            if (!argument) throw new Error(USAGE);
+
+            const record = await revokeApiKey(argument);
+            if (!record) throw new Error(`No key with id ${argument}`);
+            console.log(`Revoked key ${record.id} ("${record.name}")`);
+            break;
+        }
+
+        case 'list': {
+            const records = await listApiKeys();
+            if (records.length === 0) {
+                console.log('No API keys');
+            }
+            for (const record of records) {
+                const limits = [
+                    `${record.rateLimitPerMinute ?? 'default'} req/min`,
+                    `${record.dailyQuota ?? 'default'} images/day`,
+                ].join(', ');
+                const status = record.revokedAt ? `revoked ${record.revokedAt}` : 'active';
+                const callback = record.callbackUrl ? `  → ${record.callbackUrl}` : '';
+                console.log(`${record.id}  ${record.name}  (${limits})  ${status}${callback}`);
+            }
+            break;
+        }
+
+        default:
+            throw new Error(USAGE);
+    }
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,350 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseOperations, parseOutputOptions, needsBackgroundImage, OUTPUT_FORMATS } from '../lib/imageProcessor.js';
+import { renderImageLocally } from '../lib/processing.js';
+import { sanitizeImage } from '../lib/imageValidation.js';
+import { getBackgroundRemover } from '../lib/backgroundRemover.js';
+import { mapWithConcurrency } from '../lib/concurrency.js';
+import { errorBody } from '../lib/errors.js';
+import type { ProcessingSettings } from '../lib/uploads.js';
+
+// Cut out local images with the same pipeline as /api/upload, writing the
+// results to a folder. Nothing is uploaded to storage, and the result cache
+// (which lives in storage) is not used.
+//   npm run bgremove -- <file|directory|glob>... [options]
+
+const USAGE = `Usage: bgremove <file|directory|glob>... [options]
+
+Directories are searched recursively for images. Quote globs ("assets/**/*.jpg")
+so the shell leaves them alone; *, **, ? and {a,b} are supported.
+
+Options:
+  -o, --out <dir>            Output folder (default: bgremove-output)
+  --operations <json>        Pipeline steps, as the operations field of /api/upload
+  --format <format>          png, webp, avif or jpeg (default: png)
+  --quality <1-100>          Encoder quality (default: 80)
+  --flatten-color <hex>      Fill for transparent areas of JPEG output (default: #ffffff)
+  --background-image <file>  Picture for the image background mode
+  --provider <name>          Background removal provider (default: BG_REMOVAL_PROVIDER)
+  --keep-color-profile       Keep the ICC colour profile of the inputs
+  -c, --concurrency <n>      Images processed at once (default: 2)
+  --skip-existing            Leave inputs whose output file already exists
+  --dry-run                  List what would be processed, without processing
+  --report <file>            Write a JSON summary to the file, or to stdout with "-"
+  -h, --help                 Show this help`;
+
+const DEFAULT_OUT_DIR = 'bgremove-output';
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 32;
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.gif', '.tif', '.tiff', '.avif']);
+
+interface InputFile {
+    path: string;
+    relativePath: string; // Where the output goes, below the output folder
+}
+
+type FileStatus = 'processed' | 'skipped' | 'failed' | 'planned';
+
+interface FileResult {
+    input: string;
+    output: string;
+    status: FileStatus;
+    durationMs?: number;
+    size?: number;
+    error?: string;
+    code?: string;
+}
+
+function hasGlobMagic(pattern: string): boolean {
+    return /[*?{]/.test(pattern);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.+^${}()|[\]\\*?]/g, '\\$&');
+}
+
+// A glob over '/'-separated paths as a regular expression. `**/` matches any
+// number of folders, `*` and `?` stay within one.
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            i++;
+            if (pattern[i + 1] === '/') {
+                i++;
+                source += '(?:[^/]*/)*';
+            } else {
+                source += '.*';
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{' && pattern.indexOf('}', i) > i) {
+            const end = pattern.indexOf('}', i);
+            source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+            i = end;
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+// Files below `dir` as '/'-separated relative paths, leaving out `excludeDir`
+async function listFilesBelow(dir: string, excludeDir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true });
+    return entries
+        .filter((entry) => entry.isFile())
+        .map((entry) => path.join(entry.parentPath ?? entry.path, entry.name))
+        .filter((file) => !isInside(file, excludeDir))
+        .map((file) => path.relative(dir, file).split(path.sep).join('/'));
+}
+
+function isInside(file: string, dir: string): boolean {
+    const relative = path.relative(dir, file);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// The files an argument names. Outputs keep their path below a directory
+// argument or below the folder a glob starts in; single files go to the top.
+async function expandInput(argument: string, outDir: string): Promise<InputFile[]> {
+    if (hasGlobMagic(argument)) {
+        const segments = argument.split(/[\\/]/);
+        const firstMagic = segments.findIndex(hasGlobMagic);
+        const baseDir = segments.slice(0, firstMagic).join('/') || '.';
+        const matcher = globToRegExp(segments.slice(firstMagic).join('/'));
+
+        const files = await listFilesBelow(baseDir, outDir).catch(() => []);
+        return files
+            .filter((file) => matcher.test(file))
+            .map((file) => ({ path: path.join(baseDir, file), relativePath: file }));
+    }
+
+    const stats = await fs.stat(argument).catch(() => null);
+    if (!stats) {
+        throw new Error(`No such file or directory: ${argument}`);
+    }
+    if (stats.isDirectory()) {
+        const files = await listFilesBelow(argument, outDir);
+        return files
+            .filter((file) => IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase()))
+            .map((file) => ({ path: path.join(argument, file), relativePath: file }));
+    }
+    return [{ path: argument, relativePath: path.basename(argument) }];
+}
+
+// Output paths for every input, numbered when two inputs would end up with
+// the same name (e.g. photo.jpg and photo.png)
+function outputPaths(inputs: InputFile[], outDir: string, extension: string): string[] {
+    const used = new Set<string>();
+    return inputs.map((input) => {
+        const parsed = path.parse(input.relativePath);
+        const base = path.join(outDir, parsed.dir, parsed.name);
+        let output = `${base}.${extension}`;
+        for (let n = 2; used.has(output); n++) {
+            output = `${base}-${n}.${extension}`;
+        }
+        used.add(output);
+        return output;
+    });
+}
+
+async function fileExists(file: string): Promise<boolean> {
+    return fs.access(file).then(() => true, () => false);
+}
+
+// Write through a temporary file, so an interrupted run never leaves a
+// partial output that --skip-existing would keep
+async function writeOutput(file: string, buffer: Buffer): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, buffer);
+    await fs.rename(temporary, file);
+}
+
+function parseConcurrency(value: string | undefined): number {
+    if (value === undefined) return DEFAULT_CONCURRENCY;
+
+    const concurrency = Number(value);
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+        throw new Error(`--concurrency must be a whole number between 1 and ${MAX_CONCURRENCY}`);
+    }
+    return concurrency;
+}
+
+function formatSeconds(ms: number): string {
+    return `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Progress goes to stderr so stdout stays free for the report. Terminals get
+// one line that updates in place; anything else gets a line per file.
+function createProgress(total: number) {
+    const interactive = process.stderr.isTTY;
+    const counts: Record<FileStatus, number> = { processed: 0, skipped: 0, failed: 0, planned: 0 };
+    let done = 0;
+
+    const statusLine = () => {
+        const percent = total ? Math.floor((done / total) * 100) : 100;
+        const parts = [`${counts.processed} processed`, `${counts.skipped} skipped`, `${counts.failed} failed`];
+        return `[${done}/${total}] ${percent}%  ${parts.join(', ')}`;
+    };
+
+    return {
+        update(result: FileResult): void {
+            done++;
+            counts[result.status]++;
+
+            let line: string | null = null;
+            if (result.status === 'failed') {
+                line = `✗ ${result.input}: ${result.error}`;
+            } else if (!interactive) {
+                const timing = result.durationMs === undefined ? '' : ` (${formatSeconds(result.durationMs)})`;
+                line = `${result.status === 'processed' ? '✓' : '-'} ${result.input} → ${result.output} ${result.status}${timing}`;
+            }
+
+            if (interactive) {
+                process.stderr.write(`\r\x1b[K${line ? `${line}\n` : ''}${statusLine()}`);
+            } else if (line) {
+                process.stderr.write(`${line}\n`);
+            }
+        },
+        finish(): void {
+            if (interactive) process.stderr.write('\n');
+        },
+    };
+}
+
+async function main(): Promise<void> {
+    const { positionals, values } = parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string', short: 'o' },
+            operations: { type: 'string' },
+            format: { type: 'string' },
+            quality: { type: 'string' },
+            'flatten-color': { type: 'string' },
+            'background-image': { type: 'string' },
+            provider: { type: 'string' },
+            'keep-color-profile': { type: 'boolean' },
+            concurrency: { type: 'string', short: 'c' },
+            'skip-existing': { type: 'boolean' },
+            'dry-run': { type: 'boolean' },
+            report: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+    if (positionals.length === 0) {
+        throw new Error(USAGE);
+    }
+
+    // Keep the provider's own logging out of the progress display, and
+    // storage out of the picture
+    process.env.LOG_LEVEL ||= 'warn';
+    process.env.BG_CACHE_TTL_HOURS = '0';
+    if (values.provider) process.env.BG_REMOVAL_PROVIDER = values.provider;
+    const provider = getBackgroundRemover().name;
+
+    const keepColorProfile = values['keep-color-profile'] ?? false;
+    const concurrency = parseConcurrency(values.concurrency);
+    const outDir = path.resolve(values.out ?? DEFAULT_OUT_DIR);
+
+    const operations = parseOperations(values.operations);
+    const output = parseOutputOptions({
+        format: values.format,
+        quality: values.quality,
+        flattenColor: values['flatten-color'],
+    });
+    let backgroundImage: Buffer | undefined;
+    if (values['background-image']) {
+        const file = await fs.readFile(values['background-image']);
+        backgroundImage = (await sanitizeImage(file, { keepColorProfile, label: 'Background image' })).buffer;
+    }
+    if (needsBackgroundImage(operations) && !backgroundImage) {
+        throw new Error('--background-image is required for the image background mode');
+    }
+    const settings: ProcessingSettings = { operations, output, backgroundImage };
+
+    // Every named file once, in a stable order
+    const found = (await Promise.all(positionals.map((argument) => expandInput(argument, outDir)))).flat();
+    const inputs = [...new Map(found.map((input) => [path.resolve(input.path), input])).values()]
+        .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    if (inputs.length === 0) {
+        throw new Error('No images found');
+    }
+    const outputs = outputPaths(inputs, outDir, OUTPUT_FORMATS[output.format].extension);
+
+    const startedAt = new Date();
+    const progress = createProgress(inputs.length);
+
+    const results = await mapWithConcurrency(inputs, concurrency, async (input, index): Promise<FileResult> => {
+        const result: FileResult = { input: input.path, output: outputs[index], status: 'planned' };
+        if (values['skip-existing'] && (await fileExists(result.output))) {
+            result.status = 'skipped';
+        } else if (!values['dry-run']) {
+            const started = Date.now();
+            try {
+                const image = await sanitizeImage(await fs.readFile(input.path), { keepColorProfile });
+                const { buffer } = await renderImageLocally(image.buffer, settings);
+                await writeOutput(result.output, buffer);
+                result.status = 'processed';
+                result.size = buffer.length;
+            } catch (error) {
+                const body = errorBody(error, 'Failed to process image');
+                result.status = 'failed';
+                result.error = body.error;
+                result.code = body.code;
+            }
+            result.durationMs = Date.now() - started;
+        }
+        progress.update(result);
+        return result;
+    });
+    progress.finish();
+
+    const finishedAt = new Date();
+    const count = (status: FileStatus) => results.filter((result) => result.status === status).length;
+    const report = {
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        dryRun: values['dry-run'] ?? false,
+        provider,
+        operations,
+        output,
+        outDir,
+        total: results.length,
+        processed: count('processed'),
+        skipped: count('skipped'),
+        failed: count('failed'),
+        files: results,
+    };
+
+    if (values.report === '-') {
+        console.log(JSON.stringify(report, null, 2));
+    } else if (values.report) {
+        await fs.writeFile(values.report, JSON.stringify(report, null, 2) + '\n');
+    }
+
+    const summary = report.dryRun
+        ? `Dry run: ${count('planned')} to process, ${report.skipped} to skip`
+        : `Processed ${report.processed}, skipped ${report.skipped}, failed ${report.failed}` +
+          ` in ${formatSeconds(report.durationMs)}`;
+    process.stderr.write(`${summary} → ${outDir}\n`);
+
+    if (report.failed > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
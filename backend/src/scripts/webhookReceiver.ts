@@ -0,0 +1,100 @@
+import 'dotenv/config';
+import http from 'http';
+import { parseArgs } from 'util';
+import { verifyWebhookSignature, type WebhookPayload } from '../lib/webhooks.js';
+
+// A stand-in for an integrator's webhook endpoint, to try webhooks out
+// locally. Prints every delivery and checks its signature; --fail answers the
+// first deliveries with 500, to see retries happen.
+//   npm run webhook-receiver -- [--port <port>] [--secret <secret>] [--fail <count>]
+// The server needs WEBHOOK_ALLOW_PRIVATE_URLS=true to call it.
+
+const USAGE = `Usage:
+  npm run webhook-receiver -- [--port <port>] [--secret <secret>] [--fail <count>]
+
+The secret defaults to WEBHOOK_SECRET. Point callbackUrl at http://localhost:<port>/.`;
+
+const DEFAULT_PORT = 4000;
+
+function parseCount(value: string | undefined, option: string, fallback: number): number {
+    if (value === undefined) return fallback;
+
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`--${option} must be a whole number`);
+    }
+    return count;
+}
+
+function header(req: http.IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            port: { type: 'string' },
+            secret: { type: 'string' },
+            fail: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const port = parseCount(values.port, 'port', DEFAULT_PORT);
+    const secret = values.secret ?? process.env.WEBHOOK_SECRET;
+    let failuresLeft = parseCount(values.fail, 'fail', 0);
+
+    const server = http.createServer(async (req, res) => {
+        const body = await readBody(req);
+
+        let signature = 'unsigned';
+        if (header(req, 'x-webhook-signature')) {
+            const valid = secret && verifyWebhookSignature(secret, {
+                signature: header(req, 'x-webhook-signature'),
+                timestamp: header(req, 'x-webhook-timestamp'),
+            }, body);
+            signature = !secret ? 'not checked (no secret)' : valid ? 'valid' : 'INVALID';
+        }
+
+        const failing = failuresLeft > 0;
+        if (failing) failuresLeft--;
+
+        console.log(`\n${new Date().toISOString()}  ${req.method} ${req.url}`);
+        console.log(`  ${header(req, 'x-webhook-event')} delivery ${header(req, 'x-webhook-id')}, signature ${signature}`);
+        try {
+            const payload = JSON.parse(body) as WebhookPayload;
+            const outcome = payload.result?.processedUrl ?? payload.error?.error;
+            console.log(`  image ${payload.imageId ?? '-'} in ${payload.timings.durationMs}ms: ${outcome}`);
+        } catch {
+            console.log(`  ${body}`);
+        }
+        console.log(`  answered ${failing ? 500 : 200}`);
+
+        res.writeHead(failing ? 500 : 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ received: !failing }));
+    });
+
+    server.listen(port, () => {
+        console.log(`Listening for webhooks on http://localhost:${port}/`);
+        if (!secret) console.log('No secret given, so signatures are not checked');
+    });
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
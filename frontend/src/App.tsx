@@ -1,14 +1,81 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import ImageUploader from './components/ImageUploader';
+import ProcessingOptions, {
+    DEFAULT_PROCESSING_OPTIONS,
+    buildOperations,
+    describeOptions,
+    effectsPreviewFilter,
+    hasEffects,
+    optionsFromSettings,
+    type ProcessingOptionsState,
+} from './components/ProcessingOptions';
+import BackgroundPicker, { type BackgroundChoice } from './components/BackgroundPicker';
+import BatchResults from './components/BatchResults';
+import ShareDialog, { type ShareOptions } from './components/ShareDialog';
+import MaskEditor from './components/MaskEditor';
+import HistoryGallery from './components/HistoryGallery';
+import ImageCompare from './components/ImageCompare';
+import { JOB_STAGES, JobCancelledError, watchJob, type JobStage } from './lib/jobs';
+import { resolveApiUrl } from './lib/api';
+import { ApiError } from './lib/errors';
+import {
+    cancelJob,
+    createBatch,
+    createJob,
+    createShareLink,
+    deleteImage,
+    downloadBatchZip,
+    downloadImage,
+    downloadMask,
+    getBatch,
+    getImage,
+    replaceBackground,
+    replaceMask,
+    reprocessImage,
+    uploadImage,
+    type BatchManifest,
+    type ProcessingResult,
+} from './lib/apiClient';
 
 interface ImageData {
     imageId: string;
     originalUrl: string;
     processedUrl: string;
     originalName: string;
+    options: ProcessingOptionsState;
+    expiresAt: string | null;
 }
 
-const API_URL = import.meta.env.VITE_API_URL || '';
+const BATCH_POLL_MS = 1000;
+
+// The open image is kept in the URL so a reload can bring it back
+function setImageParam(imageId: string | null) {
+    const url = new URL(window.location.href);
+    if (imageId) {
+        url.searchParams.set('image', imageId);
+    } else {
+        url.searchParams.delete('image');
+    }
+    window.history.replaceState(null, '', url);
+}
+
+// Last path segment of an imported URL, like the backend names it
+function nameFromUrl(url: string): string {
+    try {
+        return decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '') || 'image';
+    } catch {
+        return 'image';
+    }
+}
+
+// "in 5 hours" style time until an image is deleted
+function formatExpiry(expiresAt: string): string {
+    const minutes = Math.max(Math.round((new Date(expiresAt).getTime() - Date.now()) / 60000), 1);
+    const format = new Intl.RelativeTimeFormat(undefined, { numeric: 'always' });
+    if (minutes < 60) return format.format(minutes, 'minute');
+    if (minutes < 48 * 60) return format.format(Math.round(minutes / 60), 'hour');
+    return format.format(Math.round(minutes / (24 * 60)), 'day');
+}
 
 export default function App() {
     const [imageData, setImageData] = useState<ImageData | null>(null);
@@ -16,27 +83,87 @@ export default function App() {
     const [error, setError] = useState<string | null>(null);
     const [showOriginal, setShowOriginal] = useState(false);
     const [copied, setCopied] = useState(false);
+    const [showShare, setShowShare] = useState(false);
+    const [isSharing, setIsSharing] = useState(false);
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [options, setOptions] = useState<ProcessingOptionsState>(DEFAULT_PROCESSING_OPTIONS);
+    const [isReplacingBackground, setIsReplacingBackground] = useState(false);
+    const [stage, setStage] = useState<JobStage>('queued');
+    const jobIdRef = useRef<string | null>(null);
+    const [batch, setBatch] = useState<BatchManifest | null>(null);
+    const [showReprocess, setShowReprocess] = useState(false);
+    const [showMaskEditor, setShowMaskEditor] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [reprocessOptions, setReprocessOptions] = useState<ProcessingOptionsState>(DEFAULT_PROCESSING_OPTIONS);
+    const [isReprocessing, setIsReprocessing] = useState(false);
+
+    // Load a stored image onto the result screen
+    const openImage = useCallback(async (imageId: string) => {
+        const data = await getImage(imageId);
+        if (data.originalUrl === null) {
+            throw new Error('Image not found');
+        }
+
+        setImageData({
+            imageId,
+            originalUrl: resolveApiUrl(data.originalUrl),
+            processedUrl: resolveApiUrl(data.processedUrl),
+            originalName: data.original.originalName,
+            options: optionsFromSettings(data.operations, data.output),
+            expiresAt: data.expiresAt,
+        });
+        setImageParam(imageId);
+    }, []);
+
+    // Reopen the image named in the URL after a reload
+    useEffect(() => {
+        const imageId = new URLSearchParams(window.location.search).get('image');
+        if (!imageId) return;
+
+        openImage(imageId).catch(() => setImageParam(null));
+    }, [openImage]);
 
-    const handleUpload = useCallback(async (file: File) => {
-        const originalUrl = URL.createObjectURL(file);
+    const handleOpenFromHistory = useCallback(async (imageId: string) => {
+        try {
+            await openImage(imageId);
+            setShowHistory(false);
+        } catch (err) {
+            setShowHistory(false);
+            setError(err instanceof Error ? err.message : 'Failed to open image');
+        }
+    }, [openImage]);
+
+    // Process one image, either a file or a URL for the backend to import
+    const handleUpload = useCallback(async (source: File | string) => {
+        // Remote images can be previewed straight from their URL
+        const isFile = typeof source !== 'string';
+        const originalUrl = isFile ? URL.createObjectURL(source) : source;
+        const originalName = isFile ? source.name : nameFromUrl(source);
         setPreviewUrl(originalUrl);
         setIsUploading(true);
+        setStage('queued');
         setError(null);
 
-        const formData = new FormData();
-        formData.append('image', file);
-
         try {
-            const response = await fetch(`${API_URL}/api/upload`, {
-                method: 'POST',
-                body: formData,
+            const fields = {
+                operations: buildOperations(options),
+                format: options.format,
+                quality: options.quality,
+            };
+            // Serverless deployments have no background jobs
+            const job = await createJob(source, fields).catch((err: unknown) => {
+                if (err instanceof ApiError && err.code === 'not_supported') return null;
+                throw err;
             });
 
-            const data = await response.json();
-
-            if (!response.ok) {
-                throw new Error(data.error || 'Failed to process image');
+            let data: ProcessingResult;
+            if (job) {
+                // Follow the job's progress until it finishes
+                jobIdRef.current = job.jobId;
+                data = await watchJob(resolveApiUrl(job.eventsUrl), setStage);
+            } else {
+                setStage('removing_background');
+                data = await uploadImage(source, fields);
             }
 
             // Preload the processed image before showing it
@@ -44,67 +171,235 @@ export default function App() {
                 const img = new Image();
                 img.onload = () => resolve();
                 img.onerror = () => resolve(); // Continue even if preload fails
-                img.src = data.processedUrl;
+                img.src = resolveApiUrl(data.processedUrl);
             });
 
             setImageData({
                 imageId: data.imageId,
-                originalUrl,
-                processedUrl: data.processedUrl,
-                originalName: file.name,
+                originalUrl: resolveApiUrl(data.originalUrl),
+                processedUrl: resolveApiUrl(data.processedUrl),
+                originalName,
+                options,
+                expiresAt: data.expiresAt,
             });
+            setImageParam(data.imageId);
             setPreviewUrl(null);
+            if (isFile) URL.revokeObjectURL(originalUrl);
         } catch (err) {
-            const message = err instanceof Error ? err.message : 'Failed to upload image';
-            setError(message);
-            URL.revokeObjectURL(originalUrl);
+            // Cancelling just returns to the upload screen
+            if (!(err instanceof JobCancelledError)) {
+                const message = err instanceof Error ? err.message : 'Failed to upload image';
+                setError(message);
+            }
+            if (isFile) URL.revokeObjectURL(originalUrl);
             setPreviewUrl(null);
         } finally {
+            jobIdRef.current = null;
             setIsUploading(false);
         }
+    }, [options]);
+
+    const handleBatchUpload = useCallback(async (files: File[]) => {
+        setError(null);
+
+        try {
+            setBatch(await createBatch(files, {
+                operations: buildOperations(options),
+                format: options.format,
+                quality: options.quality,
+            }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to start batch');
+        }
+    }, [options]);
+
+    const handleFiles = useCallback((files: File[]) => {
+        if (files.length === 1) {
+            handleUpload(files[0]);
+        } else {
+            handleBatchUpload(files);
+        }
+    }, [handleUpload, handleBatchUpload]);
+
+    // Poll the running batch until every file is done
+    const batchId = batch?.status === 'processing' ? batch.batchId : null;
+    useEffect(() => {
+        if (!batchId) return;
+
+        const timer = setInterval(async () => {
+            try {
+                const data = await getBatch(batchId);
+                setBatch((current) => current?.batchId === data.batchId ? data : current);
+            } catch {
+                // Try again on the next tick
+            }
+        }, BATCH_POLL_MS);
+
+        return () => clearInterval(timer);
+    }, [batchId]);
+
+    const handleBatchDownload = useCallback(() => {
+        if (!batch) return;
+        downloadBatchZip(batch.batchId).catch((err: unknown) => {
+            setError(err instanceof Error ? err.message : 'Failed to download ZIP');
+        });
+    }, [batch]);
+
+    const handleCancel = useCallback(async () => {
+        if (!jobIdRef.current) return;
+
+        try {
+            await cancelJob(jobIdRef.current);
+        } catch {
+            // The job keeps running; its events will still arrive
+        }
     }, []);
 
+    const stageIndex = JOB_STAGES.findIndex((s) => s.stage === stage);
+    const stageLabel = JOB_STAGES[stageIndex]?.label ?? 'Processing...';
+    const progress = Math.max(0, stageIndex) / (JOB_STAGES.length - 1);
+
     const handleBack = useCallback(() => {
-        if (imageData) {
-            URL.revokeObjectURL(imageData.originalUrl);
-        }
         setImageData(null);
+        setImageParam(null);
         setShowOriginal(false);
+        setShowReprocess(false);
+        setShowMaskEditor(false);
+        setShowShare(false);
         setError(null);
-    }, [imageData]);
+    }, []);
 
-    const handleDelete = useCallback(async () => {
+    const handleReprocess = useCallback(async () => {
         if (!imageData) return;
 
+        setIsReprocessing(true);
+        setError(null);
         try {
-            await fetch(`${API_URL}/api/delete?imageId=${imageData.imageId}`, {
-                method: 'DELETE',
+            const data = await reprocessImage(imageData.imageId, {
+                operations: buildOperations(reprocessOptions),
+                format: reprocessOptions.format,
+                quality: reprocessOptions.quality,
             });
-        } catch {
-            // Ignore delete errors
+
+            const processedUrl = resolveApiUrl(data.processedUrl);
+            setImageData((current) => current && {
+                ...current,
+                processedUrl,
+                options: reprocessOptions,
+                expiresAt: data.expiresAt,
+            });
+            setShowReprocess(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to reprocess image');
+        } finally {
+            setIsReprocessing(false);
+        }
+    }, [imageData, reprocessOptions]);
+
+    const handleDelete = useCallback(async () => {
+        if (!imageData) return;
+
+        setError(null);
+        try {
+            await deleteImage(imageData.imageId);
+        } catch (err) {
+            // Stay on the image so the user knows it is still stored
+            setError(err instanceof Error ? err.message : 'Failed to delete image');
+            return;
         }
 
         handleBack();
     }, [imageData, handleBack]);
 
+    const toggleReprocess = useCallback(() => {
+        if (!imageData) return;
+        setReprocessOptions(imageData.options);
+        setShowReprocess((open) => !open);
+    }, [imageData]);
+
     const handleDownload = useCallback(() => {
         if (!imageData) return;
-        // Use backend endpoint that sets Content-Disposition header
-        const filename = encodeURIComponent(imageData.originalName);
-        window.location.href = `${API_URL}/api/download/${imageData.imageId}?filename=${filename}`;
+        // The backend names the file after the upload
+        downloadImage(imageData.imageId, imageData.originalName).catch((err: unknown) => {
+            setError(err instanceof Error ? err.message : 'Failed to download image');
+        });
+    }, [imageData]);
+
+    const handleDownloadMask = useCallback(() => {
+        if (!imageData) return;
+        downloadMask(imageData.imageId).catch((err: unknown) => {
+            setError(err instanceof Error ? err.message : 'Failed to download mask');
+        });
+    }, [imageData]);
+
+    // Upload a touched-up mask; errors are shown by the editor
+    const handleSaveMask = useCallback(async (mask: Blob) => {
+        if (!imageData) return;
+
+        const data = await replaceMask(imageData.imageId, mask);
+
+        const processedUrl = resolveApiUrl(data.processedUrl);
+        setImageData((current) => current && { ...current, processedUrl });
+        setShowMaskEditor(false);
+    }, [imageData]);
+
+    const handleBackground = useCallback(async (choice: BackgroundChoice) => {
+        if (!imageData) return;
+
+        setIsReplacingBackground(true);
+        setError(null);
+        try {
+            const data = choice.mode === 'image'
+                ? await replaceBackground(imageData.imageId, { mode: 'image' }, choice.file)
+                : await replaceBackground(imageData.imageId, choice.mode === 'none' ? 'none' : choice);
+
+            const processedUrl = resolveApiUrl(data.processedUrl);
+            setImageData((current) => current && { ...current, processedUrl });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to replace background');
+        } finally {
+            setIsReplacingBackground(false);
+        }
     }, [imageData]);
 
-    const handleCopy = useCallback(async () => {
+    // Create a signed link to the result and copy it
+    const handleShare = useCallback(async (shareOptions: ShareOptions) => {
         if (!imageData) return;
+
+        setIsSharing(true);
+        setError(null);
         try {
-            await navigator.clipboard.writeText(imageData.processedUrl);
+            const link = await createShareLink(imageData.imageId, shareOptions);
+
+            // The link may be relative to this page when the API shares its origin
+            await navigator.clipboard.writeText(new URL(resolveApiUrl(link.url), window.location.href).href);
+            setShowShare(false);
             setCopied(true);
             setTimeout(() => setCopied(false), 2000);
-        } catch {
-            // Ignore copy errors
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to copy share link');
+        } finally {
+            setIsSharing(false);
         }
     }, [imageData]);
 
+    // Batch Screen
+    if (batch) {
+        return (
+            <BatchResults
+                batch={batch}
+                resolveUrl={resolveApiUrl}
+                onBack={() => setBatch(null)}
+                onDownloadZip={handleBatchDownload}
+            />
+        );
+    }
+
+    // History Screen
+    if (showHistory) {
+        return <HistoryGallery onOpen={handleOpenFromHistory} onBack={() => setShowHistory(false)} />;
+    }
+
     // Upload Screen
     if (!imageData && !isUploading && !previewUrl) {
         return (
@@ -114,13 +409,25 @@ export default function App() {
                         <div className="logo-img" role="img" aria-label="Background Remover Logo" />
                         <h1 className="logo">Background Remover</h1>
                     </div>
-                    <p className="tagline">Remove background & flip horizontally</p>
-                    <ImageUploader onUpload={handleUpload} error={error} />
+                    <ProcessingOptions options={options} onChange={setOptions} />
+                    <ImageUploader onUpload={handleFiles} onImportUrl={handleUpload} error={error} />
+                    <button className="icon-btn back-btn history-btn" onClick={() => setShowHistory(true)}>
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <circle cx="12" cy="12" r="9" />
+                            <path d="M12 7v5l3 3" />
+                        </svg>
+                        <span>History</span>
+                    </button>
                 </div>
             </div>
         );
     }
 
+    // Effects picked in the reprocess panel, previewed on a result that has none yet
+    const effectsPreview = showReprocess && !isUploading && !showOriginal && imageData && !hasEffects(imageData.options)
+        ? effectsPreviewFilter(reprocessOptions)
+        : undefined;
+
     // Result Screen
     return (
         <div className="app-container result-screen">
@@ -149,15 +456,46 @@ export default function App() {
                 </button>
 
                 <div className="action-buttons">
+                    <button
+                        className={`icon-btn ${showReprocess ? 'active' : ''}`}
+                        onClick={toggleReprocess}
+                        disabled={!imageData}
+                        title="Reprocess with different settings"
+                    >
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <path d="M23 4v6h-6M1 20v-6h6" />
+                            <path d="M3.51 9a9 9 0 0114.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0020.49 15" />
+                        </svg>
+                    </button>
                     <div className="copy-btn-wrapper">
-                        <button className="icon-btn" onClick={handleCopy} title="Copy URL">
+                        <button className="icon-btn" onClick={() => setShowShare((open) => !open)} title="Share link">
                             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                                 <rect x="9" y="9" width="13" height="13" rx="2" />
                                 <path d="M5 15H4a2 2 0 01-2-2V4a2 2 0 012-2h9a2 2 0 012 2v1" />
                             </svg>
                         </button>
-                        {copied && <span className="copied-popup">URL copied</span>}
+                        {showShare && (
+                            <ShareDialog
+                                onShare={handleShare}
+                                onClose={() => setShowShare(false)}
+                                isSharing={isSharing}
+                            />
+                        )}
+                        {copied && <span className="copied-popup">Link copied</span>}
                     </div>
+                    {imageData?.options.removeBackground && (
+                        <button className="icon-btn" onClick={() => setShowMaskEditor(true)} title="Touch up mask">
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M12 20h9M16.5 3.5a2.12 2.12 0 013 3L7 19l-4 1 1-4z" />
+                            </svg>
+                        </button>
+                    )}
+                    <button className="icon-btn" onClick={handleDownloadMask} disabled={!imageData} title="Download mask">
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <circle cx="12" cy="12" r="9" />
+                            <path d="M12 3a9 9 0 000 18z" fill="currentColor" />
+                        </svg>
+                    </button>
                     <button className="icon-btn" onClick={handleDelete} title="Delete">
                         <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                             <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
@@ -172,31 +510,76 @@ export default function App() {
                 </div>
             </header>
 
+            {showReprocess && (
+                <div className="reprocess-panel">
+                    <ProcessingOptions options={reprocessOptions} onChange={setReprocessOptions} />
+                    <button className="primary-btn" onClick={handleReprocess} disabled={isReprocessing}>
+                        {isReprocessing ? 'Reprocessing...' : 'Apply'}
+                    </button>
+                </div>
+            )}
+
             {/* Main Image */}
             <main className="image-view">
-                <div className={`image-wrapper ${isUploading ? 'processing' : ''}`}>
-                    <img
-                        src={isUploading ? previewUrl! : (showOriginal ? imageData?.originalUrl : imageData?.processedUrl)}
-                        alt={isUploading ? "Processing" : (showOriginal ? "Original" : "Processed")}
-                        className={isUploading ? 'faded' : ''}
+                {imageData && !isUploading ? (
+                    <ImageCompare
+                        originalUrl={imageData.originalUrl}
+                        processedUrl={imageData.processedUrl}
+                        showOriginal={showOriginal}
+                        filter={effectsPreview}
                     />
-                    {isUploading && (
-                        <div className="processing-overlay">
-                            <div className="processing-content">
-                                <div className="spinner"></div>
-                                <p className="processing-text">Processing...</p>
+                ) : (
+                    <div className={`image-wrapper ${isUploading ? 'processing' : ''}`}>
+                        <img
+                            src={previewUrl!}
+                            alt="Processing"
+                            className={isUploading ? 'faded' : ''}
+                        />
+                        {isUploading && (
+                            <div className="processing-overlay">
+                                <div className="processing-content">
+                                    <div className="spinner"></div>
+                                    <div className="progress-bar">
+                                        <div
+                                            className="progress-bar-fill determinate"
+                                            style={{ width: `${Math.round(progress * 100)}%` }}
+                                        />
+                                    </div>
+                                    <p className="processing-text">{stageLabel}</p>
+                                    <button className="cancel-btn" onClick={handleCancel}>
+                                        Cancel
+                                    </button>
+                                </div>
                             </div>
-                        </div>
-                    )}
-                </div>
+                        )}
+                    </div>
+                )}
             </main>
 
             {/* Bottom indicator */}
             <footer className="bottom-bar">
+                {imageData && !isUploading && (
+                    <BackgroundPicker onPick={handleBackground} disabled={isReplacingBackground} />
+                )}
+                {error && imageData && <span className="inline-error">{error}</span>}
+                {imageData?.expiresAt && !isUploading && (
+                    <span className="expiry-label" title={new Date(imageData.expiresAt).toLocaleString()}>
+                        Deleted automatically {formatExpiry(imageData.expiresAt)}
+                    </span>
+                )}
                 <span className="image-label">
-                    {isUploading ? 'Processing your image...' : (showOriginal ? 'Original' : '✨ Background Removed & Flipped')}
+                    {isUploading ? 'Processing your image...' : (showOriginal ? 'Original' : `✨ ${describeOptions(imageData?.options ?? options)}`)}
                 </span>
             </footer>
+
+            {showMaskEditor && imageData && (
+                <MaskEditor
+                    imageId={imageData.imageId}
+                    originalUrl={imageData.originalUrl}
+                    onSave={handleSaveMask}
+                    onClose={() => setShowMaskEditor(false)}
+                />
+            )}
         </div>
     );
 }
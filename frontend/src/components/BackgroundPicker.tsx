@@ -0,0 +1,92 @@
+import { useRef } from 'react';
+
+// Matches the backend's background fill; "none" restores transparency
+export type BackgroundChoice =
+    | { mode: 'none' }
+    | { mode: 'color'; color: string }
+    | { mode: 'linear'; colors: string[]; angle: number }
+    | { mode: 'radial'; colors: string[] }
+    | { mode: 'image'; file: File };
+
+interface BackgroundPickerProps {
+    onPick: (choice: BackgroundChoice) => void;
+    disabled: boolean;
+}
+
+const PRESETS: { label: string; choice: BackgroundChoice; swatch: string }[] = [
+    {
+        label: 'Transparent',
+        choice: { mode: 'none' },
+        swatch: 'repeating-conic-gradient(#555 0% 25%, #888 25% 50%) 50% / 8px 8px',
+    },
+    { label: 'White', choice: { mode: 'color', color: '#ffffff' }, swatch: '#ffffff' },
+    { label: 'Black', choice: { mode: 'color', color: '#000000' }, swatch: '#000000' },
+    {
+        label: 'Sunset gradient',
+        choice: { mode: 'linear', colors: ['#f97316', '#ec4899'], angle: 135 },
+        swatch: 'linear-gradient(135deg, #f97316, #ec4899)',
+    },
+    {
+        label: 'Spotlight gradient',
+        choice: { mode: 'radial', colors: ['#f8fafc', '#94a3b8'] },
+        swatch: 'radial-gradient(circle, #f8fafc, #94a3b8)',
+    },
+];
+
+export default function BackgroundPicker({ onPick, disabled }: BackgroundPickerProps) {
+    const fileRef = useRef<HTMLInputElement>(null);
+    const colorTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+    // The colour input fires continuously while dragging; only apply the last pick
+    const pickColor = (color: string) => {
+        clearTimeout(colorTimer.current);
+        colorTimer.current = setTimeout(() => onPick({ mode: 'color', color }), 300);
+    };
+
+    return (
+        <div className="background-picker">
+            {PRESETS.map(({ label, choice, swatch }) => (
+                <button
+                    key={label}
+                    className="swatch"
+                    style={{ background: swatch }}
+                    onClick={() => onPick(choice)}
+                    disabled={disabled}
+                    title={label}
+                />
+            ))}
+
+            <label className={`swatch swatch-custom ${disabled ? 'disabled' : ''}`} title="Custom colour">
+                <input
+                    type="color"
+                    disabled={disabled}
+                    onChange={(e) => pickColor(e.target.value)}
+                />
+            </label>
+
+            <button
+                className="swatch swatch-image"
+                onClick={() => fileRef.current?.click()}
+                disabled={disabled}
+                title="Use an image as background"
+            >
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <rect x="3" y="3" width="18" height="18" rx="2" />
+                    <circle cx="8.5" cy="8.5" r="1.5" />
+                    <path d="M21 15l-5-5L5 21" />
+                </svg>
+            </button>
+            <input
+                ref={fileRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onPick({ mode: 'image', file });
+                    e.target.value = '';
+                }}
+            />
+        </div>
+    );
+}
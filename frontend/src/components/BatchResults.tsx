@@ -0,0 +1,57 @@
+import { describeError } from '../lib/errors';
+import type { BatchManifest } from '../lib/apiClient';
+
+interface BatchResultsProps {
+    batch: BatchManifest;
+    resolveUrl: (url: string) => string;
+    onBack: () => void;
+    onDownloadZip: () => void;
+}
+
+export default function BatchResults({ batch, resolveUrl, onBack, onDownloadZip }: BatchResultsProps) {
+    const finished = batch.succeeded + batch.failed;
+
+    return (
+        <div className="app-container result-screen">
+            <header className="top-bar">
+                <button className="icon-btn back-btn" onClick={onBack}>
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M19 12H5M12 19l-7-7 7-7" />
+                    </svg>
+                    <span>Back</span>
+                </button>
+
+                <span className="batch-summary">
+                    {finished} / {batch.total} processed
+                    {batch.failed > 0 && <span className="batch-failed"> · {batch.failed} failed</span>}
+                </span>
+
+                <button className="primary-btn" onClick={onDownloadZip} disabled={batch.succeeded === 0}>
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3" />
+                    </svg>
+                    Download ZIP
+                </button>
+            </header>
+
+            <main className="batch-grid">
+                {batch.items.map((item) => (
+                    <figure key={item.index} className={`batch-item ${item.status}`}>
+                        <div className="batch-thumb">
+                            {item.status === 'succeeded' && item.processedUrl ? (
+                                <img src={resolveUrl(item.processedUrl)} alt={item.originalName} loading="lazy" />
+                            ) : item.status === 'failed' ? (
+                                <span className="batch-error" title={item.error ?? undefined}>
+                                    {describeError({ error: item.error, code: item.errorCode }, 'Failed')}
+                                </span>
+                            ) : (
+                                <div className="spinner" />
+                            )}
+                        </div>
+                        <figcaption title={item.originalName}>{item.originalName}</figcaption>
+                    </figure>
+                ))}
+            </main>
+        </div>
+    );
+}
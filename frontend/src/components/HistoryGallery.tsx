@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { resolveApiUrl } from '../lib/api';
+import {
+    createShareLink,
+    deleteImage,
+    downloadImage,
+    listImages,
+    type ImageSummary,
+} from '../lib/apiClient';
+
+interface HistoryGalleryProps {
+    onOpen: (imageId: string) => void;
+    onBack: () => void;
+}
+
+const PAGE_SIZE = 24;
+const SHARE_LINK_SECONDS = 24 * 60 * 60;
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function HistoryGallery({ onOpen, onBack }: HistoryGalleryProps) {
+    const [items, setItems] = useState<ImageSummary[]>([]);
+    const [total, setTotal] = useState(0);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    const loadPage = useCallback(async (cursor: string | null) => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const data = await listImages({ limit: PAGE_SIZE, cursor: cursor ?? undefined });
+            setItems((current) => (cursor ? [...current, ...data.images] : data.images));
+            setTotal(data.total);
+            setNextCursor(data.nextCursor);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load history');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadPage(null);
+    }, [loadPage]);
+
+    const handleDownload = async (item: ImageSummary) => {
+        setError(null);
+        try {
+            await downloadImage(item.imageId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to download image');
+        }
+    };
+
+    const handleShare = async (item: ImageSummary) => {
+        setError(null);
+        try {
+            const link = await createShareLink(item.imageId, { expiresIn: SHARE_LINK_SECONDS });
+            await navigator.clipboard.writeText(new URL(resolveApiUrl(link.url), window.location.href).href);
+            setCopiedId(item.imageId);
+            setTimeout(() => setCopiedId((id) => (id === item.imageId ? null : id)), 2000);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create share link');
+        }
+    };
+
+    const handleDelete = async (item: ImageSummary) => {
+        setError(null);
+        try {
+            await deleteImage(item.imageId);
+            setItems((current) => current.filter(({ imageId }) => imageId !== item.imageId));
+            setTotal((count) => count - 1);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete image');
+        }
+    };
+
+    return (
+        <div className="app-container result-screen">
+            <header className="top-bar">
+                <button className="icon-btn back-btn" onClick={onBack}>
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M19 12H5M12 19l-7-7 7-7" />
+                    </svg>
+                    <span>Back</span>
+                </button>
+
+                <span className="batch-summary">
+                    {total} {total === 1 ? 'image' : 'images'}
+                </span>
+            </header>
+
+            {error && <div className="inline-error history-error">{error}</div>}
+
+            <main className="batch-grid">
+                {items.map((item) => (
+                    <figure key={item.imageId} className="batch-item history-item">
+                        <button className="batch-thumb" onClick={() => onOpen(item.imageId)} title="Open">
+                            <img
+                                src={resolveApiUrl(item.thumbnailUrl ?? item.processedUrl)}
+                                alt={item.originalName}
+                                loading="lazy"
+                            />
+                        </button>
+                        <figcaption title={item.originalName}>{item.originalName}</figcaption>
+                        <span className="history-meta">
+                            {new Date(item.createdAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}
+                            {' · '}{item.format.toUpperCase()} · {formatSize(item.size)}
+                        </span>
+                        <div className="history-actions">
+                            <button className="icon-btn" onClick={() => handleDownload(item)} title="Download">
+                                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                    <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3" />
+                                </svg>
+                            </button>
+                            <button className="icon-btn" onClick={() => handleShare(item)} title="Copy share link">
+                                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                    <rect x="9" y="9" width="13" height="13" rx="2" />
+                                    <path d="M5 15H4a2 2 0 01-2-2V4a2 2 0 012-2h9a2 2 0 012 2v1" />
+                                </svg>
+                            </button>
+                            <button className="icon-btn" onClick={() => handleDelete(item)} title="Delete">
+                                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                    <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+                                </svg>
+                            </button>
+                            {copiedId === item.imageId && <span className="history-copied">Link copied</span>}
+                        </div>
+                    </figure>
+                ))}
+
+                {!isLoading && items.length === 0 && !error && (
+                    <p className="history-empty">Nothing processed yet.</p>
+                )}
+            </main>
+
+            {(isLoading || nextCursor) && (
+                <footer className="bottom-bar">
+                    {isLoading ? (
+                        <div className="spinner" />
+                    ) : (
+                        <button className="primary-btn" onClick={() => loadPage(nextCursor)}>
+                            Load more
+                        </button>
+                    )}
+                </footer>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from 'react';
+
+type PreviewBackground = 'checker' | 'black' | 'white' | 'custom';
+type Zoom = 'fit' | 'actual';
+
+interface ImageCompareProps {
+    originalUrl: string;
+    processedUrl: string;
+    showOriginal: boolean;
+    filter?: string;
+}
+
+const BACKGROUNDS: { value: PreviewBackground; label: string }[] = [
+    { value: 'checker', label: 'Checkerboard' },
+    { value: 'black', label: 'Black' },
+    { value: 'white', label: 'White' },
+];
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+// Shows the processed image over a chosen preview background, with a
+// draggable split against the original and 100% zoom with panning. Pointer
+// events cover mouse, pen and touch alike.
+export default function ImageCompare({ originalUrl, processedUrl, showOriginal, filter }: ImageCompareProps) {
+    const [split, setSplit] = useState<number | null>(null); // Percent of the width showing the original
+    const [background, setBackground] = useState<PreviewBackground>('checker');
+    const [customColor, setCustomColor] = useState('#3b82f6');
+    const [zoom, setZoom] = useState<Zoom>('fit');
+    const [pan, setPan] = useState({ x: 0, y: 0 });
+    const [natural, setNatural] = useState({ width: 0, height: 0 });
+    const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const stageRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ mode: 'split' | 'pan'; x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        const element = viewportRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    const scale = zoom === 'actual' || !natural.width
+        ? 1
+        : Math.min(viewport.width / natural.width, viewport.height / natural.height, 1);
+    const width = natural.width * scale;
+    const height = natural.height * scale;
+
+    // Keep the image from being dragged out of view
+    const limit = { x: Math.max(0, (width - viewport.width) / 2), y: Math.max(0, (height - viewport.height) / 2) };
+    const offset = { x: clamp(pan.x, -limit.x, limit.x), y: clamp(pan.y, -limit.y, limit.y) };
+
+    const setZoomMode = (mode: Zoom) => {
+        setZoom(mode);
+        setPan({ x: 0, y: 0 });
+    };
+
+    const moveSplit = (clientX: number) => {
+        const rect = stageRef.current!.getBoundingClientRect();
+        setSplit(clamp(((clientX - rect.left) / rect.width) * 100, 0, 100));
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        // At fit size the whole image moves the split; zoomed in, only the handle
+        // does and the rest pans
+        const onHandle = (e.target as HTMLElement).closest('.compare-handle') !== null;
+        const splitting = split !== null && (onHandle || zoom === 'fit');
+        if (!splitting && zoom === 'fit') return;
+
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { mode: splitting ? 'split' : 'pan', x: e.clientX, y: e.clientY };
+        if (splitting) moveSplit(e.clientX);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        if (drag.mode === 'split') {
+            moveSplit(e.clientX);
+        } else {
+            setPan({ x: offset.x + e.clientX - drag.x, y: offset.y + e.clientY - drag.y });
+            dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+        }
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const backgroundStyle = background === 'custom'
+        ? { background: customColor }
+        : background === 'checker' ? undefined : { background };
+
+    return (
+        <div className="compare">
+            <div
+                ref={viewportRef}
+                className={`compare-viewport ${zoom === 'actual' ? 'zoomed' : ''}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onDoubleClick={() => setZoomMode(zoom === 'fit' ? 'actual' : 'fit')}
+            >
+                <div
+                    ref={stageRef}
+                    className="compare-stage"
+                    style={{ width, height, transform: `translate(${offset.x}px, ${offset.y}px)`, ...backgroundStyle }}
+                >
+                    <img
+                        src={showOriginal ? originalUrl : processedUrl}
+                        alt={showOriginal ? 'Original' : 'Processed'}
+                        style={{ filter: showOriginal ? undefined : filter }}
+                        onLoad={(e) => {
+                            if (showOriginal) return;
+                            const { naturalWidth, naturalHeight } = e.currentTarget;
+                            setNatural({ width: naturalWidth, height: naturalHeight });
+                        }}
+                        draggable={false}
+                    />
+                    {split !== null && !showOriginal && (
+                        <>
+                            <img
+                                src={originalUrl}
+                                alt="Original"
+                                className="compare-original"
+                                style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+                                draggable={false}
+                            />
+                            <div className="compare-divider" style={{ left: `${split}%` }}>
+                                <div className="compare-handle" title="Drag to compare">
+                                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                        <path d="M9 6l-6 6 6 6M15 6l6 6-6 6" />
+                                    </svg>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <div className="compare-toolbar">
+                <button
+                    className={`option-chip ${split !== null ? 'active' : ''}`}
+                    onClick={() => setSplit(split === null ? 50 : null)}
+                    title="Compare with the original"
+                >
+                    Compare
+                </button>
+
+                <div className="compare-backgrounds">
+                    {BACKGROUNDS.map(({ value, label }) => (
+                        <button
+                            key={value}
+                            className={`swatch preview-${value} ${background === value ? 'active' : ''}`}
+                            onClick={() => setBackground(value)}
+                            title={`${label} preview background`}
+                        />
+                    ))}
+                    <label
+                        className={`swatch swatch-custom ${background === 'custom' ? 'active' : ''}`}
+                        style={{ background: customColor }}
+                        title="Custom preview background"
+                    >
+                        <input
+                            type="color"
+                            value={customColor}
+                            onChange={(e) => {
+                                setCustomColor(e.target.value);
+                                setBackground('custom');
+                            }}
+                        />
+                    </label>
+                </div>
+
+                <button
+                    className={`option-chip ${zoom === 'fit' ? 'active' : ''}`}
+                    onClick={() => setZoomMode('fit')}
+                >
+                    Fit
+                </button>
+                <button
+                    className={`option-chip ${zoom === 'actual' ? 'active' : ''}`}
+                    onClick={() => setZoomMode('actual')}
+                >
+                    100%
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,14 +1,61 @@
-import { useCallback, useState, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef } from 'react';
 
 interface ImageUploaderProps {
-    onUpload: (file: File) => void;
+    onUpload: (files: File[]) => void;
+    onImportUrl: (url: string) => void;
     error: string | null;
 }
 
-export default function ImageUploader({ onUpload, error }: ImageUploaderProps) {
+// Pasted text only counts as an image URL if it is a single http(s) link
+function asImageUrl(text: string): string | null {
+    const value = text.trim();
+    if (!/^https?:\/\/\S+$/i.test(value)) return null;
+
+    try {
+        return new URL(value).href;
+    } catch {
+        return null;
+    }
+}
+
+export default function ImageUploader({ onUpload, onImportUrl, error }: ImageUploaderProps) {
     const [isDragOver, setIsDragOver] = useState(false);
+    const [url, setUrl] = useState('');
     const inputRef = useRef<HTMLInputElement>(null);
 
+    // Ctrl+V anywhere on the upload screen takes image data or an image URL;
+    // pasting text into a field is left alone
+    useEffect(() => {
+        const handlePaste = (e: ClipboardEvent) => {
+            const files = Array.from(e.clipboardData?.files ?? []).filter((file) => file.type.startsWith('image/'));
+            if (files.length > 0) {
+                e.preventDefault();
+                onUpload(files);
+                return;
+            }
+
+            const target = e.target as HTMLElement | null;
+            if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+            const pastedUrl = asImageUrl(e.clipboardData?.getData('text') ?? '');
+            if (pastedUrl) {
+                e.preventDefault();
+                onImportUrl(pastedUrl);
+            }
+        };
+
+        document.addEventListener('paste', handlePaste);
+        return () => document.removeEventListener('paste', handlePaste);
+    }, [onUpload, onImportUrl]);
+
+    const handleUrlSubmit = useCallback((e: React.FormEvent) => {
+        e.preventDefault();
+        const value = asImageUrl(url);
+        if (value) {
+            onImportUrl(value);
+        }
+    }, [url, onImportUrl]);
+
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault();
         setIsDragOver(true);
@@ -22,9 +69,9 @@ export default function ImageUploader({ onUpload, error }: ImageUploaderProps) {
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault();
         setIsDragOver(false);
-        const file = e.dataTransfer.files[0];
-        if (file && file.type.startsWith('image/')) {
-            onUpload(file);
+        const files = Array.from(e.dataTransfer.files).filter((file) => file.type.startsWith('image/'));
+        if (files.length > 0) {
+            onUpload(files);
         }
     }, [onUpload]);
 
@@ -33,10 +80,11 @@ export default function ImageUploader({ onUpload, error }: ImageUploaderProps) {
     }, []);
 
     const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            onUpload(file);
+        const files = Array.from(e.target.files ?? []);
+        if (files.length > 0) {
+            onUpload(files);
         }
+        e.target.value = '';
     }, [onUpload]);
 
     return (
@@ -52,6 +100,7 @@ export default function ImageUploader({ onUpload, error }: ImageUploaderProps) {
                     ref={inputRef}
                     type="file"
                     accept="image/*"
+                    multiple
                     onChange={handleFileChange}
                     className="hidden"
                 />
@@ -64,12 +113,25 @@ export default function ImageUploader({ onUpload, error }: ImageUploaderProps) {
                     </svg>
                 </div>
 
-                <p className="upload-title">Drop your image here</p>
+                <p className="upload-title">Drop your images here</p>
                 <p className="upload-subtitle">or click to browse</p>
                 <button className="upload-btn">Choose Image</button>
-                <p className="upload-hint">Supports all image formats</p>
+                <p className="upload-hint">Supports all image formats · select several for a batch · or paste with Ctrl+V</p>
             </div>
 
+            <form className="url-import" onSubmit={handleUrlSubmit}>
+                <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="Or paste an image URL"
+                    aria-label="Image URL"
+                />
+                <button type="submit" className="primary-btn" disabled={!asImageUrl(url)}>
+                    Import
+                </button>
+            </form>
+
             {error && <div className="error-box">{error}</div>}
         </>
     );
@@ -0,0 +1,338 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getMask } from '../lib/apiClient';
+
+type Tool = 'erase' | 'restore' | 'pan';
+
+interface MaskEditorProps {
+    imageId: string;
+    originalUrl: string;
+    onSave: (mask: Blob) => Promise<void>;
+    onClose: () => void;
+}
+
+const MAX_HISTORY = 30;
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 8;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to load image'));
+        image.src = src;
+    });
+}
+
+function context2d(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+    return canvas.getContext('2d', { willReadFrequently: true })!;
+}
+
+// The editor keeps the mask as the alpha of a white canvas, so brushes can
+// paint it and the original can be clipped by it directly
+function maskToAlpha(mask: HTMLImageElement): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = mask.naturalWidth;
+    canvas.height = mask.naturalHeight;
+    const ctx = context2d(canvas);
+    ctx.drawImage(mask, 0, 0);
+
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        pixels.data[i + 3] = pixels.data[i];
+        pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = 255;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+}
+
+// Back to the grayscale PNG the API expects
+function alphaToMask(canvas: HTMLCanvasElement): Promise<Blob> {
+    const out = document.createElement('canvas');
+    out.width = canvas.width;
+    out.height = canvas.height;
+
+    const pixels = context2d(canvas).getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = pixels.data[i + 3];
+        pixels.data[i + 3] = 255;
+    }
+    context2d(out).putImageData(pixels, 0, 0);
+
+    return new Promise((resolve, reject) => {
+        out.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode mask'))), 'image/png');
+    });
+}
+
+// One round brush stamp. Hardness is the share of the radius painted solid
+// before the edge fades out.
+function dab(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, hardness: number, tool: Tool) {
+    const gradient = ctx.createRadialGradient(x, y, radius * Math.min(hardness, 0.99), x, y, radius);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalCompositeOperation = 'source-over';
+}
+
+export default function MaskEditor({ imageId, originalUrl, onSave, onClose }: MaskEditorProps) {
+    const [tool, setTool] = useState<Tool>('erase');
+    const [size, setSize] = useState(40);
+    const [hardness, setHardness] = useState(70);
+    const [zoom, setZoom] = useState(1);
+    const [pan, setPan] = useState({ x: 0, y: 0 });
+    const [history, setHistory] = useState({ undo: 0, redo: 0 });
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const stageRef = useRef<HTMLDivElement>(null);
+    const viewRef = useRef<HTMLCanvasElement>(null);
+    const originalRef = useRef<HTMLImageElement | null>(null);
+    const maskRef = useRef<HTMLCanvasElement | null>(null);
+    const cutoutRef = useRef<HTMLCanvasElement | null>(null);
+    const undoRef = useRef<ImageData[]>([]);
+    const redoRef = useRef<ImageData[]>([]);
+    const strokeRef = useRef<{ x: number; y: number; panning: boolean } | null>(null);
+    const frameRef = useRef<number | null>(null);
+
+    // Removed areas show faintly behind the cutout so they can be restored
+    const render = useCallback(() => {
+        frameRef.current = null;
+        const view = viewRef.current, mask = maskRef.current, cutout = cutoutRef.current, original = originalRef.current;
+        if (!view || !mask || !cutout || !original) return;
+
+        const cutoutCtx = cutout.getContext('2d')!;
+        cutoutCtx.globalCompositeOperation = 'source-over';
+        cutoutCtx.clearRect(0, 0, cutout.width, cutout.height);
+        cutoutCtx.drawImage(original, 0, 0);
+        cutoutCtx.globalCompositeOperation = 'destination-in';
+        cutoutCtx.drawImage(mask, 0, 0);
+
+        const ctx = view.getContext('2d')!;
+        ctx.clearRect(0, 0, view.width, view.height);
+        ctx.globalAlpha = 0.25;
+        ctx.drawImage(original, 0, 0);
+        ctx.globalAlpha = 1;
+        ctx.drawImage(cutout, 0, 0);
+    }, []);
+
+    const scheduleRender = useCallback(() => {
+        if (frameRef.current === null) frameRef.current = requestAnimationFrame(render);
+    }, [render]);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        (async () => {
+            try {
+                const maskUrl = URL.createObjectURL(await getMask(imageId, 'removal'));
+                const [original, mask] = await Promise.all([loadImage(originalUrl), loadImage(maskUrl)]);
+                URL.revokeObjectURL(maskUrl);
+                if (cancelled) return;
+
+                if (original.naturalWidth !== mask.naturalWidth || original.naturalHeight !== mask.naturalHeight) {
+                    throw new Error('This image was resized or rotated before its background was removed, so its mask can\'t be edited here');
+                }
+
+                const view = viewRef.current!;
+                const cutout = document.createElement('canvas');
+                view.width = cutout.width = original.naturalWidth;
+                view.height = cutout.height = original.naturalHeight;
+                originalRef.current = original;
+                maskRef.current = maskToAlpha(mask);
+                cutoutRef.current = cutout;
+                render();
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load mask');
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        })();
+
+        return () => {
+            cancelled = true;
+            if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+        };
+    }, [imageId, originalUrl, render]);
+
+    const snapshot = () => {
+        const mask = maskRef.current!;
+        return context2d(mask).getImageData(0, 0, mask.width, mask.height);
+    };
+
+    const syncHistory = () => setHistory({ undo: undoRef.current.length, redo: redoRef.current.length });
+
+    const undo = useCallback(() => {
+        const previous = undoRef.current.pop();
+        if (!previous || !maskRef.current) return;
+        redoRef.current.push(snapshot());
+        context2d(maskRef.current).putImageData(previous, 0, 0);
+        syncHistory();
+        scheduleRender();
+    }, [scheduleRender]);
+
+    const redo = useCallback(() => {
+        const next = redoRef.current.pop();
+        if (!next || !maskRef.current) return;
+        undoRef.current.push(snapshot());
+        context2d(maskRef.current).putImageData(next, 0, 0);
+        syncHistory();
+        scheduleRender();
+    }, [scheduleRender]);
+
+    useEffect(() => {
+        const onKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+            if (!(e.ctrlKey || e.metaKey)) return;
+            if (e.key.toLowerCase() === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) redo(); else undo();
+            } else if (e.key.toLowerCase() === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    }, [undo, redo, onClose]);
+
+    // React wheel listeners are passive, so zooming needs a native one
+    useEffect(() => {
+        const stage = stageRef.current;
+        if (!stage) return;
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            setZoom((z) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z * (e.deltaY < 0 ? 1.1 : 1 / 1.1))));
+        };
+        stage.addEventListener('wheel', onWheel, { passive: false });
+        return () => stage.removeEventListener('wheel', onWheel);
+    }, []);
+
+    // Pointer position in image pixels; the bounding box already includes zoom and pan
+    const toImage = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const view = viewRef.current!;
+        const rect = view.getBoundingClientRect();
+        return {
+            x: ((e.clientX - rect.left) / rect.width) * view.width,
+            y: ((e.clientY - rect.top) / rect.height) * view.height,
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!maskRef.current || isSaving) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+
+        const panning = tool === 'pan' || e.button === 1;
+        const point = toImage(e);
+        strokeRef.current = { ...point, panning };
+        if (panning) return;
+
+        undoRef.current.push(snapshot());
+        if (undoRef.current.length > MAX_HISTORY) undoRef.current.shift();
+        redoRef.current = [];
+        syncHistory();
+
+        dab(context2d(maskRef.current), point.x, point.y, size / 2, hardness / 100, tool);
+        scheduleRender();
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const stroke = strokeRef.current;
+        if (!stroke || !maskRef.current) return;
+
+        if (stroke.panning) {
+            setPan((p) => ({ x: p.x + e.movementX, y: p.y + e.movementY }));
+            return;
+        }
+
+        // Stamp along the path so fast strokes stay continuous
+        const point = toImage(e);
+        const distance = Math.hypot(point.x - stroke.x, point.y - stroke.y);
+        const step = Math.max(1, size * 0.15);
+        const ctx = context2d(maskRef.current);
+        for (let d = step; d <= distance; d += step) {
+            const t = d / distance;
+            dab(ctx, stroke.x + (point.x - stroke.x) * t, stroke.y + (point.y - stroke.y) * t, size / 2, hardness / 100, tool);
+        }
+        if (distance >= step) {
+            strokeRef.current = { ...point, panning: false };
+            scheduleRender();
+        }
+    };
+
+    const handlePointerUp = () => {
+        strokeRef.current = null;
+    };
+
+    const handleSave = async () => {
+        if (!maskRef.current) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave(await alphaToMask(maskRef.current));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save mask');
+            setIsSaving(false);
+        }
+    };
+
+    const ready = !isLoading && maskRef.current !== null;
+
+    return (
+        <div className="mask-editor" role="dialog" aria-label="Edit mask">
+            <div className="mask-toolbar">
+                {(['erase', 'restore', 'pan'] as Tool[]).map((value) => (
+                    <button
+                        key={value}
+                        className={`option-chip ${tool === value ? 'active' : ''}`}
+                        onClick={() => setTool(value)}
+                    >
+                        {value === 'erase' ? 'Erase' : value === 'restore' ? 'Restore' : 'Pan'}
+                    </button>
+                ))}
+                <label className="quality-slider">
+                    Size {size}px
+                    <input type="range" min={2} max={300} value={size} onChange={(e) => setSize(Number(e.target.value))} />
+                </label>
+                <label className="quality-slider">
+                    Hardness {hardness}%
+                    <input type="range" min={0} max={100} value={hardness} onChange={(e) => setHardness(Number(e.target.value))} />
+                </label>
+                <div className="mask-zoom">
+                    <button className="icon-btn" onClick={() => setZoom((z) => Math.max(MIN_ZOOM, z / 1.25))} title="Zoom out">−</button>
+                    <button className="icon-btn back-btn" onClick={() => { setZoom(1); setPan({ x: 0, y: 0 }); }} title="Fit">
+                        {Math.round(zoom * 100)}%
+                    </button>
+                    <button className="icon-btn" onClick={() => setZoom((z) => Math.min(MAX_ZOOM, z * 1.25))} title="Zoom in">+</button>
+                </div>
+                <button className="icon-btn back-btn" onClick={undo} disabled={!history.undo}>Undo</button>
+                <button className="icon-btn back-btn" onClick={redo} disabled={!history.redo}>Redo</button>
+                <div className="mask-actions">
+                    <button className="icon-btn back-btn" onClick={onClose} disabled={isSaving}>Cancel</button>
+                    <button className="primary-btn" onClick={handleSave} disabled={!ready || isSaving}>
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+
+            {error && <div className="inline-error">{error}</div>}
+
+            <div ref={stageRef} className="mask-stage">
+                {isLoading && <div className="spinner" />}
+                <canvas
+                    ref={viewRef}
+                    className={`mask-canvas ${tool === 'pan' ? 'panning' : ''}`}
+                    style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`, visibility: ready ? 'visible' : 'hidden' }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,352 @@
+export type OutputFormat = 'png' | 'webp' | 'avif' | 'jpeg';
+
+// How the result is framed around the subject: as it was uploaded, cropped
+// tight, fitted to an aspect ratio, or centred on a fixed-size square
+export type Framing = 'none' | 'subject' | '1:1' | '4:5' | '16:9' | '1000x1000';
+
+export interface ProcessingOptionsState {
+    removeBackground: boolean;
+    flipHorizontal: boolean;
+    flipVertical: boolean;
+    rotate: 0 | 90 | 180 | 270;
+    maskShift: number;
+    feather: number;
+    decontaminate: boolean;
+    framing: Framing;
+    framePadding: number;
+    dropShadow: boolean;
+    contactShadow: boolean;
+    outline: boolean;
+    outlineWidth: number;
+    outlineColor: string;
+    format: OutputFormat;
+    quality: number;
+}
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptionsState = {
+    removeBackground: true,
+    flipHorizontal: true,
+    flipVertical: false,
+    rotate: 0,
+    maskShift: 0,
+    feather: 0,
+    decontaminate: false,
+    framing: 'none',
+    framePadding: 20,
+    dropShadow: false,
+    contactShadow: false,
+    outline: false,
+    outlineWidth: 10,
+    outlineColor: '#ffffff',
+    format: 'png',
+    quality: 80,
+};
+
+// Turn the toggles into the ordered operation list the upload API expects
+export function buildOperations(options: ProcessingOptionsState) {
+    const operations: Record<string, unknown>[] = [];
+
+    if (options.removeBackground) {
+        operations.push({ type: 'removeBackground' });
+        if (options.maskShift || options.feather || options.decontaminate) {
+            operations.push({
+                type: 'refineMask',
+                shift: options.maskShift,
+                feather: options.feather,
+                decontaminate: options.decontaminate,
+            });
+        }
+    }
+    if (options.framing !== 'none') {
+        const frame: Record<string, unknown> = { type: 'autoCrop', padding: options.framePadding };
+        if (options.framing === '1000x1000') {
+            Object.assign(frame, { width: 1000, height: 1000 });
+        } else if (options.framing !== 'subject') {
+            frame.aspectRatio = options.framing;
+        }
+        operations.push(frame);
+    }
+    if (options.flipHorizontal) operations.push({ type: 'flip', direction: 'horizontal' });
+    if (options.flipVertical) operations.push({ type: 'flip', direction: 'vertical' });
+    if (options.rotate) operations.push({ type: 'rotate', angle: options.rotate });
+    // Effects go last so flips and rotations don't move the shadow
+    if (options.outline) operations.push({ type: 'outline', width: options.outlineWidth, color: options.outlineColor });
+    if (options.contactShadow) operations.push({ type: 'contactShadow' });
+    if (options.dropShadow) operations.push({ type: 'dropShadow' });
+
+    return operations;
+}
+
+const RATIO_FRAMINGS: Record<'1:1' | '4:5' | '16:9', number> = { '1:1': 1, '4:5': 4 / 5, '16:9': 16 / 9 };
+
+// The framing a stored autoCrop step was built from; anything the UI can't
+// express shows as a plain crop to the subject
+function framingOf(frame: { aspectRatio?: number; width?: number; height?: number }): Framing {
+    if (frame.width === 1000 && frame.height === 1000) return '1000x1000';
+
+    const ratio = frame.aspectRatio;
+    const match = (Object.keys(RATIO_FRAMINGS) as (keyof typeof RATIO_FRAMINGS)[])
+        .find((key) => ratio !== undefined && Math.abs(RATIO_FRAMINGS[key] - ratio) < 0.001);
+    return match ?? 'subject';
+}
+
+// Rebuild the toggles from the operations and output stored with an image
+export function optionsFromSettings(
+    operations: {
+        type: string;
+        direction?: string;
+        angle?: number;
+        shift?: number;
+        feather?: number;
+        decontaminate?: boolean;
+        padding?: number;
+        aspectRatio?: number;
+        width?: number;
+        height?: number;
+        color?: string;
+    }[],
+    output: { format: OutputFormat; quality: number }
+): ProcessingOptionsState {
+    const rotate = operations.find((op) => op.type === 'rotate')?.angle;
+    const refine = operations.find((op) => op.type === 'refineMask');
+    const frame = operations.find((op) => op.type === 'autoCrop');
+    const outline = operations.find((op) => op.type === 'outline');
+
+    return {
+        removeBackground: operations.some((op) => op.type === 'removeBackground'),
+        flipHorizontal: operations.some((op) => op.type === 'flip' && op.direction === 'horizontal'),
+        flipVertical: operations.some((op) => op.type === 'flip' && op.direction === 'vertical'),
+        rotate: rotate === 90 || rotate === 180 || rotate === 270 ? rotate : 0,
+        maskShift: refine?.shift ?? 0,
+        feather: refine?.feather ?? 0,
+        decontaminate: refine?.decontaminate ?? false,
+        framing: frame ? framingOf(frame) : 'none',
+        framePadding: frame?.padding ?? DEFAULT_PROCESSING_OPTIONS.framePadding,
+        dropShadow: operations.some((op) => op.type === 'dropShadow'),
+        contactShadow: operations.some((op) => op.type === 'contactShadow'),
+        outline: Boolean(outline),
+        outlineWidth: outline?.width ?? DEFAULT_PROCESSING_OPTIONS.outlineWidth,
+        outlineColor: outline?.color?.slice(0, 7) ?? DEFAULT_PROCESSING_OPTIONS.outlineColor,
+        format: output.format,
+        quality: output.quality,
+    };
+}
+
+// Short label for the result screen, e.g. "Background Removed & Flipped"
+export function describeOptions(options: ProcessingOptionsState): string {
+    const parts: string[] = [];
+
+    if (options.removeBackground) parts.push('Background Removed');
+    if (options.removeBackground && (options.maskShift || options.feather || options.decontaminate)) {
+        parts.push('Edges Refined');
+    }
+    if (options.framing !== 'none') parts.push('Cropped');
+    if (options.flipHorizontal || options.flipVertical) parts.push('Flipped');
+    if (options.rotate) parts.push('Rotated');
+    if (hasEffects(options)) parts.push('Styled');
+
+    return parts.length ? parts.join(' & ') : 'Converted to PNG';
+}
+
+export function hasEffects(options: ProcessingOptionsState): boolean {
+    return options.dropShadow || options.contactShadow || options.outline;
+}
+
+// A CSS filter that roughly previews the effects on a cutout. The real ones
+// are rendered by the server in image pixels, so sizes differ when the image
+// is displayed scaled.
+export function effectsPreviewFilter(options: ProcessingOptionsState): string | undefined {
+    const filters: string[] = [];
+
+    if (options.outline) {
+        const w = options.outlineWidth;
+        const c = options.outlineColor;
+        filters.push(`drop-shadow(${w}px 0 0 ${c}) drop-shadow(-${w}px 0 0 ${c}) drop-shadow(0 ${w}px 0 ${c}) drop-shadow(0 -${w}px 0 ${c})`);
+    }
+    if (options.contactShadow) filters.push('drop-shadow(0 6px 4px rgba(0, 0, 0, 0.4))');
+    if (options.dropShadow) filters.push('drop-shadow(10px 10px 5px rgba(0, 0, 0, 0.5))');
+
+    return filters.length ? filters.join(' ') : undefined;
+}
+
+interface ProcessingOptionsProps {
+    options: ProcessingOptionsState;
+    onChange: (options: ProcessingOptionsState) => void;
+}
+
+const ROTATIONS: ProcessingOptionsState['rotate'][] = [0, 90, 180, 270];
+
+const FRAMINGS: { value: Framing; label: string }[] = [
+    { value: 'none', label: 'Keep framing' },
+    { value: 'subject', label: 'Crop to subject' },
+    { value: '1:1', label: 'Square (1:1)' },
+    { value: '4:5', label: 'Portrait (4:5)' },
+    { value: '16:9', label: 'Wide (16:9)' },
+    { value: '1000x1000', label: '1000×1000 listing' },
+];
+
+const FORMATS: { value: OutputFormat; label: string }[] = [
+    { value: 'png', label: 'PNG' },
+    { value: 'webp', label: 'WebP' },
+    { value: 'avif', label: 'AVIF' },
+    { value: 'jpeg', label: 'JPEG (white background)' },
+];
+
+export default function ProcessingOptions({ options, onChange }: ProcessingOptionsProps) {
+    const toggle = (key: 'removeBackground' | 'flipHorizontal' | 'flipVertical') => {
+        onChange({ ...options, [key]: !options[key] });
+    };
+
+    return (
+        <div className="processing-options">
+            <button
+                className={`option-chip ${options.removeBackground ? 'active' : ''}`}
+                onClick={() => toggle('removeBackground')}
+            >
+                Remove background
+            </button>
+            <button
+                className={`option-chip ${options.flipHorizontal ? 'active' : ''}`}
+                onClick={() => toggle('flipHorizontal')}
+            >
+                Flip horizontal
+            </button>
+            <button
+                className={`option-chip ${options.flipVertical ? 'active' : ''}`}
+                onClick={() => toggle('flipVertical')}
+            >
+                Flip vertical
+            </button>
+            <button
+                className={`option-chip ${options.rotate ? 'active' : ''}`}
+                onClick={() => {
+                    const next = ROTATIONS[(ROTATIONS.indexOf(options.rotate) + 1) % ROTATIONS.length];
+                    onChange({ ...options, rotate: next });
+                }}
+                title="Rotate clockwise"
+            >
+                Rotate {options.rotate}°
+            </button>
+
+            {options.removeBackground && (
+                <div className="mask-options">
+                    <label className="quality-slider" title="Shrink (negative) or grow (positive) the cutout">
+                        Edge {options.maskShift > 0 ? `+${options.maskShift}` : options.maskShift}px
+                        <input
+                            type="range"
+                            min={-10}
+                            max={10}
+                            value={options.maskShift}
+                            onChange={(e) => onChange({ ...options, maskShift: Number(e.target.value) })}
+                        />
+                    </label>
+                    <label className="quality-slider" title="Soften the cutout edge">
+                        Feather {options.feather}px
+                        <input
+                            type="range"
+                            min={0}
+                            max={20}
+                            value={options.feather}
+                            onChange={(e) => onChange({ ...options, feather: Number(e.target.value) })}
+                        />
+                    </label>
+                    <button
+                        className={`option-chip ${options.decontaminate ? 'active' : ''}`}
+                        onClick={() => onChange({ ...options, decontaminate: !options.decontaminate })}
+                        title="Remove background colour bleeding into the edges"
+                    >
+                        Clean edge colours
+                    </button>
+                </div>
+            )}
+
+            <div className="effect-options">
+                <button
+                    className={`option-chip ${options.dropShadow ? 'active' : ''}`}
+                    onClick={() => onChange({ ...options, dropShadow: !options.dropShadow })}
+                >
+                    Drop shadow
+                </button>
+                <button
+                    className={`option-chip ${options.contactShadow ? 'active' : ''}`}
+                    onClick={() => onChange({ ...options, contactShadow: !options.contactShadow })}
+                >
+                    Contact shadow
+                </button>
+                <button
+                    className={`option-chip ${options.outline ? 'active' : ''}`}
+                    onClick={() => onChange({ ...options, outline: !options.outline })}
+                    title="Sticker border around the subject"
+                >
+                    Outline
+                </button>
+                {options.outline && (
+                    <>
+                        <label className="quality-slider">
+                            Width {options.outlineWidth}px
+                            <input
+                                type="range"
+                                min={1}
+                                max={40}
+                                value={options.outlineWidth}
+                                onChange={(e) => onChange({ ...options, outlineWidth: Number(e.target.value) })}
+                            />
+                        </label>
+                        <input
+                            type="color"
+                            value={options.outlineColor}
+                            onChange={(e) => onChange({ ...options, outlineColor: e.target.value })}
+                            aria-label="Outline colour"
+                        />
+                    </>
+                )}
+            </div>
+
+            <div className="output-options">
+                <select
+                    value={options.framing}
+                    onChange={(e) => onChange({ ...options, framing: e.target.value as Framing })}
+                    aria-label="Framing"
+                >
+                    {FRAMINGS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+                {options.framing !== 'none' && (
+                    <label className="quality-slider">
+                        Padding {options.framePadding}px
+                        <input
+                            type="range"
+                            min={0}
+                            max={200}
+                            step={5}
+                            value={options.framePadding}
+                            onChange={(e) => onChange({ ...options, framePadding: Number(e.target.value) })}
+                        />
+                    </label>
+                )}
+                <select
+                    value={options.format}
+                    onChange={(e) => onChange({ ...options, format: e.target.value as OutputFormat })}
+                    aria-label="Output format"
+                >
+                    {FORMATS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+                {options.format !== 'png' && (
+                    <label className="quality-slider">
+                        Quality {options.quality}
+                        <input
+                            type="range"
+                            min={1}
+                            max={100}
+                            value={options.quality}
+                            onChange={(e) => onChange({ ...options, quality: Number(e.target.value) })}
+                        />
+                    </label>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+
+export interface ShareOptions {
+    expiresIn: number; // Seconds
+    singleUse: boolean;
+    downloadOnly: boolean;
+}
+
+interface ShareDialogProps {
+    onShare: (options: ShareOptions) => void;
+    onClose: () => void;
+    isSharing: boolean;
+}
+
+const LIFETIMES: { seconds: number; label: string }[] = [
+    { seconds: 60 * 60, label: '1 hour' },
+    { seconds: 24 * 60 * 60, label: '1 day' },
+    { seconds: 7 * 24 * 60 * 60, label: '7 days' },
+];
+
+export default function ShareDialog({ onShare, onClose, isSharing }: ShareDialogProps) {
+    const [options, setOptions] = useState<ShareOptions>({
+        expiresIn: LIFETIMES[1].seconds,
+        singleUse: false,
+        downloadOnly: false,
+    });
+
+    return (
+        <div className="share-dialog" role="dialog" aria-label="Share link">
+            <label className="share-field">
+                Link expires after
+                <select
+                    value={options.expiresIn}
+                    onChange={(e) => setOptions({ ...options, expiresIn: Number(e.target.value) })}
+                >
+                    {LIFETIMES.map(({ seconds, label }) => (
+                        <option key={seconds} value={seconds}>{label}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="share-field">
+                <input
+                    type="checkbox"
+                    checked={options.singleUse}
+                    onChange={(e) => setOptions({ ...options, singleUse: e.target.checked })}
+                />
+                Works only once
+            </label>
+            <label className="share-field">
+                <input
+                    type="checkbox"
+                    checked={options.downloadOnly}
+                    onChange={(e) => setOptions({ ...options, downloadOnly: e.target.checked })}
+                />
+                Download instead of opening in the browser
+            </label>
+            <div className="share-actions">
+                <button className="option-chip" onClick={onClose}>
+                    Cancel
+                </button>
+                <button className="primary-btn" onClick={() => onShare(options)} disabled={isSharing}>
+                    {isSharing ? 'Creating...' : 'Copy link'}
+                </button>
+            </div>
+        </div>
+    );
+}
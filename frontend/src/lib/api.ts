@@ -0,0 +1,16 @@
+export const API_URL = import.meta.env.VITE_API_URL || '';
+const API_KEY = import.meta.env.VITE_API_KEY || '';
+
+// Storage URLs from the local disk driver are relative to the API
+export function resolveApiUrl(url: string): string {
+    return url.startsWith('/') ? `${API_URL}${url}` : url;
+}
+
+// fetch() an API path, sending the API key when one is configured
+export function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (API_KEY) {
+        headers.set('X-API-Key', API_KEY);
+    }
+    return fetch(`${API_URL}${path}`, { ...init, headers });
+}
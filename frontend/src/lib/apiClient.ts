@@ -0,0 +1,187 @@
+import { apiFetch } from './api';
+import { apiError } from './errors';
+import type {
+    BackgroundFill,
+    BackgroundResponse,
+    BatchManifest,
+    CreatedBatch,
+    CreatedJob,
+    ImageDetails,
+    ImageList,
+    JobSnapshot,
+    ListImagesQuery,
+    MaskSource,
+    ProcessingFields,
+    ProcessingResponse,
+    ShareLink,
+    ShareLinkRequest,
+} from '../../../backend/src/lib/apiTypes';
+
+// Typed calls to the backend. The request and response types are the
+// backend's own (backend/src/lib/apiTypes.ts), so a change to the API that
+// the app doesn't follow fails the type check.
+
+export type {
+    BatchItem,
+    BatchManifest,
+    ImageSummary,
+    JobSnapshot,
+    JobStage,
+    ProcessingResult,
+} from '../../../backend/src/lib/apiTypes';
+
+// Send a request and return its JSON body, or throw an ApiError
+async function request<T>(path: string, init: RequestInit, fallback: string): Promise<T> {
+    const response = await apiFetch(path, init);
+    const data = await response.json();
+    if (!response.ok) {
+        throw apiError(data, fallback);
+    }
+    return data as T;
+}
+
+function postJson(body: unknown): RequestInit {
+    return { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+}
+
+// Multipart fields are strings, with lists and objects as JSON
+function formData(fields: object): FormData {
+    const form = new FormData();
+    for (const [name, value] of Object.entries(fields)) {
+        if (value !== undefined) {
+            form.append(name, typeof value === 'string' ? value : JSON.stringify(value));
+        }
+    }
+    return form;
+}
+
+// Process an image within one request, either a file or a URL for the backend to import
+export function uploadImage(image: File | string, fields: Omit<ProcessingFields, 'url'>): Promise<ProcessingResponse> {
+    const form = formData(typeof image === 'string' ? { ...fields, url: image } : fields);
+    if (typeof image !== 'string') form.append('image', image);
+    return request(`/api/upload`, { method: 'POST', body: form }, 'Failed to process image');
+}
+
+// Queue an image for processing, either a file or a URL for the backend to import
+export function createJob(image: File | string, fields: Omit<ProcessingFields, 'url'>): Promise<CreatedJob> {
+    const form = formData(typeof image === 'string' ? { ...fields, url: image } : fields);
+    if (typeof image !== 'string') form.append('image', image);
+    return request(`/api/jobs`, { method: 'POST', body: form }, 'Failed to process image');
+}
+
+export function cancelJob(jobId: string): Promise<JobSnapshot> {
+    return request(`/api/jobs/${jobId}`, { method: 'DELETE' }, 'Failed to cancel processing');
+}
+
+export function createBatch(files: File[], fields: Omit<ProcessingFields, 'url'>): Promise<CreatedBatch> {
+    const form = formData(fields);
+    for (const file of files) {
+        form.append('images', file);
+    }
+    return request(`/api/batches`, { method: 'POST', body: form }, 'Failed to start batch');
+}
+
+export function getBatch(batchId: string): Promise<BatchManifest> {
+    return request(`/api/batches/${batchId}`, {}, 'Failed to load batch');
+}
+
+export function getImage(imageId: string): Promise<ImageDetails> {
+    return request(`/api/images/${imageId}`, {}, 'Image not found');
+}
+
+export function listImages(query: ListImagesQuery): Promise<ImageList> {
+    const params = new URLSearchParams();
+    if (query.limit !== undefined) params.set('limit', String(query.limit));
+    if (query.cursor) params.set('cursor', query.cursor);
+    return request(`/api/images?${params}`, {}, 'Failed to load history');
+}
+
+export function reprocessImage(imageId: string, fields: Omit<ProcessingFields, 'url'>): Promise<ProcessingResponse> {
+    return request(
+        `/api/images/${imageId}/reprocess`,
+        { method: 'POST', body: formData(fields) },
+        'Failed to reprocess image'
+    );
+}
+
+// Change the background; 'none' restores the transparent cutout. The image
+// mode needs the picture to put behind the subject.
+export function replaceBackground(
+    imageId: string,
+    fill: BackgroundFill | 'none',
+    backgroundImage?: File
+): Promise<BackgroundResponse> {
+    const form = formData({ fill });
+    if (backgroundImage) form.append('backgroundImage', backgroundImage);
+    return request(`/api/images/${imageId}/background`, { method: 'POST', body: form }, 'Failed to replace background');
+}
+
+// The alpha mask as a grayscale PNG
+export async function getMask(imageId: string, source: MaskSource): Promise<Blob> {
+    const response = await apiFetch(`/api/images/${imageId}/mask?source=${source}`);
+    if (!response.ok) {
+        throw apiError(await response.json(), 'Failed to load mask');
+    }
+    return response.blob();
+}
+
+export function replaceMask(imageId: string, mask: Blob): Promise<ProcessingResponse> {
+    const form = new FormData();
+    form.append('mask', mask, 'mask.png');
+    return request(`/api/images/${imageId}/mask`, { method: 'PUT', body: form }, 'Failed to save mask');
+}
+
+export function createShareLink(imageId: string, options: ShareLinkRequest): Promise<ShareLink> {
+    return request(`/api/images/${imageId}/share`, postJson(options), 'Failed to create share link');
+}
+
+// Delete an image. One that is already gone (deleted elsewhere or expired)
+// counts as deleted.
+export async function deleteImage(imageId: string): Promise<void> {
+    const response = await apiFetch(`/api/delete?imageId=${encodeURIComponent(imageId)}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404 && response.status !== 410) {
+        throw apiError(await response.json(), 'Failed to delete image');
+    }
+}
+
+// The name from a Content-Disposition header, preferring the UTF-8 `filename*`
+function dispositionFileName(header: string | null): string | null {
+    const encoded = header?.match(/filename\*=UTF-8''([^;]+)/i);
+    if (encoded) {
+        try {
+            return decodeURIComponent(encoded[1]);
+        } catch {
+            // Fall back to the plain name
+        }
+    }
+    return header?.match(/filename="([^"]*)"/i)?.[1] || null;
+}
+
+// Save a file the API sends as an attachment. A link can't send the API key
+// as a header, so the file is fetched and handed to the browser as a blob.
+async function saveDownload(path: string, fallback: string): Promise<void> {
+    const response = await apiFetch(path);
+    if (!response.ok) {
+        throw apiError(await response.json(), fallback);
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = dispositionFileName(response.headers.get('Content-Disposition')) ?? 'download';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadImage(imageId: string, filename?: string): Promise<void> {
+    const query = filename ? `?filename=${encodeURIComponent(filename)}` : '';
+    return saveDownload(`/api/download/${imageId}${query}`, 'Failed to download image');
+}
+
+export function downloadMask(imageId: string): Promise<void> {
+    return saveDownload(`/api/images/${imageId}/mask`, 'Failed to download mask');
+}
+
+export function downloadBatchZip(batchId: string): Promise<void> {
+    return saveDownload(`/api/batches/${batchId}/zip`, 'Failed to download ZIP');
+}
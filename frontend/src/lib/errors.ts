@@ -0,0 +1,51 @@
+// Error bodies sent by the API: a message plus a code to switch on
+export interface ApiErrorBody {
+    error?: string | null;
+    code?: string | null;
+    retryAfter?: number | null;
+}
+
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        public readonly code: string | null,
+        public readonly retryAfter: number | null
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+function retryHint(retryAfter: number | null | undefined, fallback: string): string {
+    if (!retryAfter) return fallback;
+    if (retryAfter < 90) return `in ${retryAfter} seconds`;
+    if (retryAfter < 90 * 60) return `in ${Math.ceil(retryAfter / 60)} minutes`;
+    return `in ${Math.ceil(retryAfter / 3600)} hours`;
+}
+
+// What to tell the user about a failed request. Background removal failures
+// get a specific message; anything else shows the server's message.
+export function describeError(body: ApiErrorBody, fallback: string): string {
+    switch (body.code) {
+        case 'rate_limited':
+            return `Too many images are being processed right now. Please try again ${retryHint(body.retryAfter, 'in a moment')}.`;
+        case 'provider_unavailable':
+            return `The background removal service is having trouble. Please try again ${retryHint(body.retryAfter, 'in a few minutes')}.`;
+        case 'provider_credits':
+            return 'The background removal service has run out of credits. Please try again later.';
+        case 'provider_auth':
+            return 'Background removal is not set up correctly on the server. Please contact the site owner.';
+        case 'quota_exceeded':
+            return `You've reached today's image limit. Please try again ${retryHint(body.retryAfter, 'tomorrow')}.`;
+        case 'unauthorized':
+            return 'This app is missing a valid API key. Please contact the site owner.';
+        case 'invalid_image':
+            return "This image couldn't be processed. Try a different photo or file format.";
+        default:
+            return body.error || fallback;
+    }
+}
+
+export function apiError(body: ApiErrorBody, fallback: string): ApiError {
+    return new ApiError(describeError(body, fallback), body.code ?? null, body.retryAfter ?? null);
+}
@@ -0,0 +1,64 @@
+import { apiError } from './errors';
+import type { JobSnapshot, JobStage, ProcessingResult } from './apiClient';
+
+export type { JobStage };
+
+// Stages in the order a successful job goes through them, with UI labels
+export const JOB_STAGES: { stage: JobStage; label: string }[] = [
+    { stage: 'queued', label: 'Waiting in queue...' },
+    { stage: 'converting', label: 'Converting image...' },
+    { stage: 'removing_background', label: 'Removing background...' },
+    { stage: 'post_processing', label: 'Applying finishing touches...' },
+    { stage: 'uploading', label: 'Saving result...' },
+    { stage: 'done', label: 'Done' },
+];
+
+export class JobCancelledError extends Error {
+    constructor() {
+        super('Processing was cancelled');
+        this.name = 'JobCancelledError';
+    }
+}
+
+const ALL_STAGES: JobStage[] = [...JOB_STAGES.map(({ stage }) => stage), 'failed', 'cancelled'];
+
+// Follow a job's server-sent events until it finishes
+export function watchJob(
+    eventsUrl: string,
+    onStage: (stage: JobStage) => void
+): Promise<ProcessingResult> {
+    return new Promise((resolve, reject) => {
+        const source = new EventSource(eventsUrl);
+
+        const handle = (event: MessageEvent) => {
+            const job = JSON.parse(event.data) as JobSnapshot;
+            onStage(job.stage);
+
+            if (job.stage === 'done' && job.result) {
+                source.close();
+                resolve(job.result);
+            } else if (job.stage === 'failed') {
+                source.close();
+                reject(apiError(
+                    { error: job.error, code: job.errorCode, retryAfter: job.retryAfter },
+                    'Failed to process image'
+                ));
+            } else if (job.stage === 'cancelled') {
+                source.close();
+                reject(new JobCancelledError());
+            }
+        };
+
+        for (const stage of ALL_STAGES) {
+            source.addEventListener(stage, handle);
+        }
+
+        // EventSource reconnects by itself after network blips; it only ends
+        // up closed when the server refuses the stream (e.g. unknown job)
+        source.onerror = () => {
+            if (source.readyState === EventSource.CLOSED) {
+                reject(new Error('Lost track of the processing job'));
+            }
+        };
+    });
+}